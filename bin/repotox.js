@@ -0,0 +1,27 @@
+#!/usr/bin/env node
+try {
+  require.resolve('ts-node')
+} catch {
+  console.error(
+    'repotox CLI requires "ts-node", install it: npm install --save-dev ts-node'
+  )
+  process.exit(1)
+}
+
+/**
+ * Config, migrations and the library itself are TypeScript modules.
+ * The library is compiled from `node_modules` as well, and with its
+ * own module options whatever the project tsconfig is
+ **/
+require('ts-node').register({
+  transpileOnly: true,
+  ignore: ['(?:^|/)node_modules/(?!repotox/lib/)'],
+  compilerOptions: {
+    module: 'commonjs',
+    moduleResolution: 'node',
+    target: 'es2019',
+    esModuleInterop: true,
+  },
+})
+
+require('../lib/cli').main(process.argv.slice(2))
@@ -0,0 +1,166 @@
+import path from 'path'
+
+import { initMigrator, loadMigrations } from './migrations'
+import { validateDatabase } from './validation'
+
+import type { Migrator } from './migrations'
+import type { NonConformingRecord, RepotoxConfig } from './types'
+
+const USAGE = [
+  'Usage: repotox <command> [--config <path>]',
+  '',
+  'Commands:',
+  '  migrate status                     list applied and pending migrations',
+  '  migrate up [--to <id>] [--dry-run] apply pending migrations',
+  '  migrate down [--to <id>]           revert the last or down to <id>',
+  '  validate [--fix]                   report and repair integrity issues',
+].join('\n')
+
+type Log = (message: string) => void
+
+/**
+ * Run the command against connection of the config, the
+ * connection is closed afterwards. Resolves the exit code
+ **/
+export async function runCli(
+  args: string[],
+  config: RepotoxConfig,
+  log: Log = console.log
+): Promise<number> {
+  const [command, subcommand] = args
+
+  const isMigrate =
+    command === 'migrate' &&
+    (subcommand === 'status' || subcommand === 'up' || subcommand === 'down')
+
+  if (isMigrate === false && command !== 'validate') {
+    log(USAGE)
+    return 1
+  }
+
+  const { mongoClient, dbName, repo } = await config.connect()
+
+  try {
+    if (command === 'validate') {
+      return await validate(repo, args.includes('--fix'), log)
+    }
+
+    const migrations = loadMigrations(path.resolve(config.migrationsDir))
+    const migrator = initMigrator(mongoClient, dbName, repo, migrations)
+
+    return await migrate(migrator, args, log)
+  } finally {
+    await mongoClient.close()
+  }
+}
+
+async function migrate(migrator: Migrator, args: string[], log: Log) {
+  const [, subcommand] = args
+  const to = getOption(args, '--to')
+
+  if (subcommand === 'status') {
+    for (const { id, appliedAt } of await migrator.status()) {
+      const state = appliedAt ? new Date(appliedAt).toISOString() : 'pending'
+      log(`${state.padEnd(24)} ${id}`)
+    }
+
+    return 0
+  }
+
+  if (subcommand === 'down') {
+    const reverted = await migrator.down({ to })
+
+    reverted.forEach((id) => log(`reverted ${id}`))
+    log(`${reverted.length} migration(s) reverted`)
+
+    return 0
+  }
+
+  if (args.includes('--dry-run') === false) {
+    const applied = await migrator.up({ to })
+
+    applied.forEach((id) => log(`applied ${id}`))
+    log(`${applied.length} migration(s) applied`)
+
+    return 0
+  }
+
+  const pending = await migrator.up({ to, dryRun: true })
+
+  pending.forEach((id) => log(`pending ${id}`))
+
+  const records = await migrator.findNonConformingRecords()
+
+  logNonConforming(records, log)
+  log(`${records.length} non-conforming record(s)`)
+
+  return 0
+}
+
+/**
+ * Exit code is non-zero if any issue is left unfixed
+ **/
+async function validate(repo: Record<string, unknown>, fix: boolean, log: Log) {
+  const report = await validateDatabase(repo, { fix })
+  const getState = (fixed: boolean) => (fixed ? ' (fixed)' : '')
+
+  logNonConforming(report.nonConforming, log)
+
+  for (const { brand, id, field, referenceId } of report.danglingReferences) {
+    log(`dangling reference "${brand}: ${id}" ${field} -> ${referenceId}`)
+  }
+
+  for (const x of report.mirrorMismatches) {
+    log(
+      `mirror mismatch "${x.brand}: ${x.id}" ${x.field} -> "${x.targetBrand}: ${x.targetId}" ${x.targetField}${getState(x.fixed)}`
+    )
+  }
+
+  for (const { brand, id, fixed } of report.missingUuids) {
+    log(`missing __uuid "${brand}: ${id}"${getState(fixed)}`)
+  }
+
+  for (const { id, fixed } of report.orphanUuids) {
+    log(`orphan __uuid ${id}${getState(fixed)}`)
+  }
+
+  const issues = Object.values(report).flat()
+  const unfixed = issues.filter((x) => 'fixed' in x === false || !x.fixed)
+
+  log(`${issues.length} issue(s), ${issues.length - unfixed.length} fixed`)
+
+  return unfixed.length ? 1 : 0
+}
+
+function logNonConforming(records: NonConformingRecord[], log: Log) {
+  for (const { brand, id, issues } of records) {
+    log(`non-conforming "${brand}: ${id}" ${JSON.stringify(issues)}`)
+  }
+}
+
+function getOption(args: string[], name: string) {
+  const index = args.indexOf(name)
+  return index === -1 ? undefined : args[index + 1]
+}
+
+/**
+ * Config path is resolved with the registered extensions, so
+ * `repotox.config.ts` is found only once ts-node hook is registered
+ **/
+export function loadConfig(configPath = 'repotox.config'): RepotoxConfig {
+  const config = require(path.resolve(configPath))
+  return config.default ?? config
+}
+
+/**
+ * Entry point of the `repotox` bin, which registers ts-node first
+ **/
+export async function main(args: string[]) {
+  try {
+    const config = loadConfig(getOption(args, '--config'))
+    process.exitCode = await runCli(args, config)
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error)
+    process.exitCode = 1
+  }
+}
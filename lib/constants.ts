@@ -3,6 +3,10 @@ export const ALWAYS_UNIQUE_KEY = 'id'
 export const IGNORE_RELATION = 'ignore-relation'
 export const FOREIGN_KEY_BRAND_TYPE = 'idFor'
 export const USED_UUID_SYSTEM_COLLECTION = '__uuid'
+export const AUDIT_SYSTEM_COLLECTION = '__audit'
+export const MIGRATIONS_SYSTEM_COLLECTION = '__migrations'
+export const ID_GENERATION_ATTEMPTS = 5
+export const PATCH_ATTEMPTS = 5
 
 export const ERROR = {
   /* Record operation errors */
@@ -15,9 +19,51 @@ export const ERROR = {
   doesNotSatisfySchema: (brand: string, id: string | number) =>
     `Input "${brand}: ${id}" does not satisfy schema constraint`,
   idIsAlreadyTaken: (id: string | number) => `Id is already taken ${id}`,
+  invalidCursor: (cursor: string) => `Invalid pagination cursor "${cursor}"`,
+  invalidPageSize: (first: unknown) =>
+    `Page size must be a positive integer, got "${first}"`,
+  auditIsNotEnabled: (brand: string) =>
+    `Audit trail is not enabled for model "${brand}"`,
+  invalidPopulateKey: (brand: string, key: string) =>
+    `Only top level foreign key can be populated "${brand}: ${key}"`,
+  staleSafeRemovePlan: (brand: string, id: string | number) =>
+    `Safe remove plan of "${brand}: ${id}" is stale, stage it again`,
+  concurrentPatch: (brand: string, id: string | number) =>
+    `Record "${brand}: ${id}" is changed concurrently by every patch attempt`,
+  writeFailed: (brand: string, id: string | number, message: string) =>
+    `Write of "${brand}: ${id}" failed: ${message}`,
+  uniqueConstraintViolation: (
+    brand: string,
+    fields: string[],
+    conflictId: string | number
+  ) =>
+    `Unique constraint "${brand}: ${fields.join(', ')}" is violated by existed record "${brand}: ${conflictId}"`,
+  versionConflict: (
+    brand: string,
+    id: string | number,
+    expectedVersion: unknown,
+    actualVersion: unknown
+  ) =>
+    `Version conflict of "${brand}: ${id}", expected "${expectedVersion}" but stored is "${actualVersion}"`,
+  restrictedRemove: (
+    brand: string,
+    id: string | number,
+    restrictedBy: Array<[brand: string, id: string]>
+  ) =>
+    `Removal of "${brand}: ${id}" is restricted by ${restrictedBy.map(([x, y]) => `"${x}: ${y}"`).join(', ')}`,
+
+  /* Migration errors */
+
+  invalidMigration: (id: string) =>
+    `Migration "${id}" must export "up" function`,
+  unknownMigration: (id: string) => `Unknown migration "${id}"`,
+  irreversibleMigration: (id: string) =>
+    `Migration "${id}" has no "down" function and can not be reverted`,
 
   /* Schema definition errors */
 
+  noDeletedAtField: (brand: string) =>
+    `Soft delete model "${brand}" must have "deletedAt" field`,
   unsupportedSchemaType: (brand: string, type: string) =>
     `Unsupported "${brand}" type: ${type}`,
   singularUnionSchemaMember: (brand: string) =>
@@ -37,6 +83,20 @@ export const ERROR = {
     `Repo model "${brand}" union schema variant must have "object" type`,
   invalidUnionSchemaMemberPropertyType: (brand: string, key: string) =>
     `Two different types under same key in discriminated union variants is not allowed "${brand}: ${key}"`,
+  invalidIdBrand: (brand: string, idBrand: string) =>
+    `Model "${brand}" id must be branded as "${brand}" foreign key but got "${idBrand}"`,
+  invalidForeignKeyBrandTypeUsage: (brand: string, key: string) =>
+    `Only "string" type can be branded as foreign key "${brand}: ${key}"`,
+  invalidForeignKeyBrandValue: (brand: string, key: string) =>
+    `Foreign key brand value must be a model name string "${brand}: ${key}"`,
+  invalidUniqueKey: (brand: string, key: string) =>
+    `Unique constraint field must be defined primitive property "${brand}: ${key}"`,
+  invalidVersionKey: (brand: string, key: string) =>
+    `Version field must be defined number property "${brand}: ${key}"`,
+  invalidOnDeleteKey: (brand: string, key: string) =>
+    `The "onDelete" policy is defined for not foreign key "${brand}: ${key}"`,
+  invalidSetNullOnDelete: (brand: string, key: string) =>
+    `The "setNull" onDelete policy is not applicable to required foreign key "${brand}: ${key}"`,
 
   /* Schema relation errors */
 
@@ -47,11 +107,79 @@ export const ERROR = {
   ) =>
     `Model "${targetBrand}" has no user-defined relation, must be either "${sourceBrand}Id" for one-to-one or "${sourceBrand}Ids" for one-to-many relation. \nMark "${sourceBrand}: ${sourceKey}" with ".description('${IGNORE_RELATION}')" in order to avoid this relation enforcement`,
 
-  referenceToNonExistedRecord: (sourceBrand: string, sourceKey: string) =>
-    `MutationError: reference to non existed record "${sourceBrand} -> ${sourceKey}"`,
+  invalidBrandReferenceNoSuchModel: (
+    sourceBrand: string,
+    sourceKey: string,
+    targetBrand: string
+  ) =>
+    `Foreign key references not registered model "${targetBrand}" at "${sourceBrand}: ${sourceKey}"`,
+  forbiddenRecursiveRelation: (sourceBrand: string, sourceKey: string) =>
+    `Foreign key relation to the same model is forbidden "${sourceBrand} -> ${sourceKey}"`,
+  referenceToNonExistedRecord: (
+    sourceBrand: string,
+    sourceKey: string,
+    id: string | number
+  ) =>
+    `MutationError: reference to non existed record "${sourceBrand} -> ${sourceKey}: ${id}"`,
   secondaryToSecondaryRelationIsForbidden: (
     sourceBrand: string,
     sourceKey: string
   ) =>
     `Secondary to secondary dependency relation is forbidden "${sourceBrand} -> ${sourceKey}"`,
 }
+
+export const ERROR_CODE = {
+  /* Record operation errors */
+
+  noIdField: 'NO_ID_FIELD',
+  recordAlreadyExists: 'RECORD_ALREADY_EXISTS',
+  recordNotExists: 'RECORD_NOT_EXISTS',
+  doesNotSatisfySchema: 'DOES_NOT_SATISFY_SCHEMA',
+  idIsAlreadyTaken: 'ID_IS_ALREADY_TAKEN',
+  invalidCursor: 'INVALID_CURSOR',
+  invalidPageSize: 'INVALID_PAGE_SIZE',
+  auditIsNotEnabled: 'AUDIT_IS_NOT_ENABLED',
+  invalidPopulateKey: 'INVALID_POPULATE_KEY',
+  staleSafeRemovePlan: 'STALE_SAFE_REMOVE_PLAN',
+  concurrentPatch: 'CONCURRENT_PATCH',
+  writeFailed: 'WRITE_FAILED',
+  uniqueConstraintViolation: 'UNIQUE_CONSTRAINT_VIOLATION',
+  versionConflict: 'VERSION_CONFLICT',
+  restrictedRemove: 'RESTRICTED_REMOVE',
+
+  /* Migration errors */
+
+  invalidMigration: 'INVALID_MIGRATION',
+  unknownMigration: 'UNKNOWN_MIGRATION',
+  irreversibleMigration: 'IRREVERSIBLE_MIGRATION',
+
+  /* Schema definition errors */
+
+  noDeletedAtField: 'NO_DELETED_AT_FIELD',
+  unsupportedSchemaType: 'UNSUPPORTED_SCHEMA_TYPE',
+  singularUnionSchemaMember: 'SINGULAR_UNION_SCHEMA_MEMBER',
+  invalidPropertyType: 'INVALID_PROPERTY_TYPE',
+  invalidLiteralPropertyType: 'INVALID_LITERAL_PROPERTY_TYPE',
+  invalidArrayPropertyType: 'INVALID_ARRAY_PROPERTY_TYPE',
+  invalidArrayPropertyUnionMemberType:
+    'INVALID_ARRAY_PROPERTY_UNION_MEMBER_TYPE',
+  invalidUnionSchemaMemberType: 'INVALID_UNION_SCHEMA_MEMBER_TYPE',
+  invalidUnionSchemaMemberPropertyType:
+    'INVALID_UNION_SCHEMA_MEMBER_PROPERTY_TYPE',
+  invalidIdBrand: 'INVALID_ID_BRAND',
+  invalidForeignKeyBrandTypeUsage: 'INVALID_FOREIGN_KEY_BRAND_TYPE_USAGE',
+  invalidForeignKeyBrandValue: 'INVALID_FOREIGN_KEY_BRAND_VALUE',
+  invalidUniqueKey: 'INVALID_UNIQUE_KEY',
+  invalidVersionKey: 'INVALID_VERSION_KEY',
+  invalidOnDeleteKey: 'INVALID_ON_DELETE_KEY',
+  invalidSetNullOnDelete: 'INVALID_SET_NULL_ON_DELETE',
+
+  /* Schema relation errors */
+
+  noUserDefinedRelation: 'NO_USER_DEFINED_RELATION',
+  invalidBrandReferenceNoSuchModel: 'INVALID_BRAND_REFERENCE_NO_SUCH_MODEL',
+  forbiddenRecursiveRelation: 'FORBIDDEN_RECURSIVE_RELATION',
+  referenceToNonExistedRecord: 'REFERENCE_TO_NON_EXISTED_RECORD',
+  secondaryToSecondaryRelationIsForbidden:
+    'SECONDARY_TO_SECONDARY_RELATION_IS_FORBIDDEN',
+} as const satisfies Record<keyof typeof ERROR, string>
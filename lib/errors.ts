@@ -0,0 +1,284 @@
+import { ERROR, ERROR_CODE } from './constants'
+
+import type { InvalidSubject } from 'schematox'
+import type { MutationReport } from './types'
+
+export type ErrorCode = (typeof ERROR_CODE)[keyof typeof ERROR_CODE]
+
+/**
+ * Base class of every error thrown by repotox,
+ * `code` value is stable and safe to match on
+ **/
+export class RepotoxError extends Error {
+  readonly code: ErrorCode
+
+  constructor(code: ErrorCode, message: string) {
+    super(message)
+    this.name = new.target.name
+    this.code = code
+  }
+}
+
+/* Schema definition errors */
+
+export class SchemaDefinitionError extends RepotoxError {
+  readonly brand: string
+  readonly field?: string
+
+  constructor(code: ErrorCode, message: string, brand: string, field?: string) {
+    super(code, message)
+    this.brand = brand
+    this.field = field
+  }
+}
+
+/* Record operation errors */
+
+export class MutationError extends RepotoxError {
+  readonly brand: string
+  readonly id: string | number
+
+  constructor(
+    code: ErrorCode,
+    message: string,
+    brand: string,
+    id: string | number
+  ) {
+    super(code, message)
+    this.brand = brand
+    this.id = id
+  }
+}
+
+export class RecordAlreadyExistsError extends MutationError {
+  constructor(brand: string, id: string | number) {
+    super(
+      ERROR_CODE.recordAlreadyExists,
+      ERROR.recordAlreadyExists(brand, id),
+      brand,
+      id
+    )
+  }
+}
+
+export class RecordNotExistsError extends MutationError {
+  constructor(brand: string, id: string | number) {
+    super(
+      ERROR_CODE.recordNotExists,
+      ERROR.recordNotExists(brand, id),
+      brand,
+      id
+    )
+  }
+}
+
+export class IdIsAlreadyTakenError extends MutationError {
+  constructor(brand: string, id: string | number) {
+    super(ERROR_CODE.idIsAlreadyTaken, ERROR.idIsAlreadyTaken(id), brand, id)
+  }
+}
+
+export class SchemaValidationError extends MutationError {
+  readonly issues: InvalidSubject[]
+
+  constructor(brand: string, id: string | number, issues: InvalidSubject[]) {
+    super(
+      ERROR_CODE.doesNotSatisfySchema,
+      ERROR.doesNotSatisfySchema(brand, id),
+      brand,
+      id
+    )
+    this.issues = issues
+  }
+}
+
+export class ReferenceToNonExistedRecordError extends MutationError {
+  readonly field: string
+  readonly referenceId: string | number
+
+  constructor(
+    brand: string,
+    id: string | number,
+    field: string,
+    referenceId: string | number
+  ) {
+    super(
+      ERROR_CODE.referenceToNonExistedRecord,
+      ERROR.referenceToNonExistedRecord(brand, field, referenceId),
+      brand,
+      id
+    )
+    this.field = field
+    this.referenceId = referenceId
+  }
+}
+
+export class StaleSafeRemovePlanError extends MutationError {
+  constructor(brand: string, id: string | number) {
+    super(
+      ERROR_CODE.staleSafeRemovePlan,
+      ERROR.staleSafeRemovePlan(brand, id),
+      brand,
+      id
+    )
+  }
+}
+
+export class ConcurrentPatchError extends MutationError {
+  constructor(brand: string, id: string | number) {
+    super(
+      ERROR_CODE.concurrentPatch,
+      ERROR.concurrentPatch(brand, id),
+      brand,
+      id
+    )
+  }
+}
+
+export class WriteFailedError extends MutationError {
+  readonly writeErrorCode: number
+
+  constructor(
+    brand: string,
+    id: string | number,
+    writeErrorCode: number,
+    message: string
+  ) {
+    super(
+      ERROR_CODE.writeFailed,
+      ERROR.writeFailed(brand, id, message),
+      brand,
+      id
+    )
+    this.writeErrorCode = writeErrorCode
+  }
+}
+
+export class UniqueConstraintError extends MutationError {
+  readonly fields: string[]
+  readonly conflictId: string | number
+
+  constructor(
+    brand: string,
+    id: string | number,
+    fields: string[],
+    conflictId: string | number
+  ) {
+    super(
+      ERROR_CODE.uniqueConstraintViolation,
+      ERROR.uniqueConstraintViolation(brand, fields, conflictId),
+      brand,
+      id
+    )
+    this.fields = fields
+    this.conflictId = conflictId
+  }
+}
+
+export class VersionConflictError extends MutationError {
+  readonly expectedVersion: unknown
+  readonly actualVersion: unknown
+
+  constructor(
+    brand: string,
+    id: string | number,
+    expectedVersion: unknown,
+    actualVersion: unknown
+  ) {
+    super(
+      ERROR_CODE.versionConflict,
+      ERROR.versionConflict(brand, id, expectedVersion, actualVersion),
+      brand,
+      id
+    )
+    this.expectedVersion = expectedVersion
+    this.actualVersion = actualVersion
+  }
+}
+
+export class RestrictedRemoveError extends MutationError {
+  readonly restrictedBy: MutationReport[]
+
+  constructor(
+    brand: string,
+    id: string | number,
+    restrictedBy: MutationReport[]
+  ) {
+    super(
+      ERROR_CODE.restrictedRemove,
+      ERROR.restrictedRemove(brand, id, restrictedBy),
+      brand,
+      id
+    )
+    this.restrictedBy = restrictedBy
+  }
+}
+
+/* Query errors */
+
+export class InvalidCursorError extends RepotoxError {
+  readonly cursor: string
+
+  constructor(cursor: string) {
+    super(ERROR_CODE.invalidCursor, ERROR.invalidCursor(cursor))
+    this.cursor = cursor
+  }
+}
+
+export class InvalidPageSizeError extends RepotoxError {
+  readonly first: unknown
+
+  constructor(first: unknown) {
+    super(ERROR_CODE.invalidPageSize, ERROR.invalidPageSize(first))
+    this.first = first
+  }
+}
+
+export class InvalidPopulateKeyError extends RepotoxError {
+  readonly brand: string
+  readonly field: string
+
+  constructor(brand: string, field: string) {
+    super(ERROR_CODE.invalidPopulateKey, ERROR.invalidPopulateKey(brand, field))
+    this.brand = brand
+    this.field = field
+  }
+}
+
+export class AuditIsNotEnabledError extends RepotoxError {
+  readonly brand: string
+
+  constructor(brand: string) {
+    super(ERROR_CODE.auditIsNotEnabled, ERROR.auditIsNotEnabled(brand))
+    this.brand = brand
+  }
+}
+
+/* Migration errors */
+
+export class MigrationError extends RepotoxError {
+  readonly migrationId: string
+
+  constructor(code: ErrorCode, message: string, migrationId: string) {
+    super(code, message)
+    this.migrationId = migrationId
+  }
+}
+
+export class InvalidMigrationError extends MigrationError {
+  constructor(id: string) {
+    super(ERROR_CODE.invalidMigration, ERROR.invalidMigration(id), id)
+  }
+}
+
+export class UnknownMigrationError extends MigrationError {
+  constructor(id: string) {
+    super(ERROR_CODE.unknownMigration, ERROR.unknownMigration(id), id)
+  }
+}
+
+export class IrreversibleMigrationError extends MigrationError {
+  constructor(id: string) {
+    super(ERROR_CODE.irreversibleMigration, ERROR.irreversibleMigration(id), id)
+  }
+}
@@ -0,0 +1,311 @@
+import { sanitizeMongoRecord } from './utils'
+
+import type {
+  ChangeStreamDocument,
+  ClientSession,
+  Db,
+  Transaction,
+} from 'mongodb'
+import type {
+  RepoEvent,
+  RepoEventListener,
+  RepoWatcher,
+  WatchOptions,
+} from './types'
+
+export type EventBus = ReturnType<typeof createEventBus>
+
+type PendingEvents = {
+  /* Driver transaction of the events, absent for the held one */
+  transaction?: Transaction
+  events: RepoEvent[]
+}
+
+const COMMITTED_TRANSACTION_STATES = [
+  'TRANSACTION_COMMITTED',
+  'TRANSACTION_COMMITTED_EMPTY',
+]
+
+/**
+ * Listeners of the model record events. Events of the writes
+ * made inside a transaction are delivered once the transaction
+ * is committed and dropped if it is aborted
+ **/
+export function createEventBus(
+  onListenerError?: (error: unknown, event: RepoEvent) => void
+) {
+  const listenersByBrand = new Map<string, Set<RepoEventListener>>()
+  const pendingBySession = new WeakMap<ClientSession, PendingEvents>()
+  const endedListeners = new WeakSet<ClientSession>()
+
+  /* Number of open watchers of each brand */
+  const watchersByBrand = new Map<string, number>()
+
+  const deliver = (events: RepoEvent[]) => {
+    for (const event of events) {
+      for (const listener of listenersByBrand.get(event.brand) ?? []) {
+        Promise.resolve()
+          .then(() => listener(event))
+          .catch((error) => onListenerError?.(error, event))
+      }
+    }
+  }
+
+  /**
+   * Queue the events of the session until the transaction is released,
+   * each attempt of the transaction starts with an empty queue
+   **/
+  const hold = (session: ClientSession) => {
+    settle(session)
+    pendingBySession.set(session, { events: [] })
+  }
+
+  const release = (session: ClientSession, isCommitted: boolean) => {
+    const pending = pendingBySession.get(session)
+
+    pendingBySession.delete(session)
+
+    if (pending && isCommitted) {
+      deliver(pending.events)
+    }
+  }
+
+  /**
+   * Deliver or drop the events of the finished transaction started
+   * by the driver. The next command of the session resets the state
+   * of the transaction, so it is settled prior to the reads and on
+   * the session end as well
+   **/
+  const settle = (session: ClientSession | undefined) => {
+    const pending = session && pendingBySession.get(session)
+
+    if (
+      pending?.transaction === undefined ||
+      (pending.transaction === session!.transaction && session!.inTransaction())
+    ) {
+      return
+    }
+
+    pendingBySession.delete(session!)
+
+    if (COMMITTED_TRANSACTION_STATES.includes(getState(pending.transaction))) {
+      deliver(pending.events)
+    }
+  }
+
+  const emit = (event: RepoEvent, session: ClientSession | undefined) => {
+    if (
+      watchersByBrand.has(event.brand) ||
+      listenersByBrand.has(event.brand) === false
+    ) {
+      return
+    }
+
+    settle(session)
+
+    const pending = session && pendingBySession.get(session)
+
+    if (pending) {
+      pending.events.push(event)
+      return
+    }
+
+    if (session?.inTransaction()) {
+      pendingBySession.set(session, {
+        transaction: session.transaction,
+        events: [event],
+      })
+
+      if (endedListeners.has(session) === false) {
+        endedListeners.add(session)
+        session.on('ended', () => settle(session))
+      }
+
+      return
+    }
+
+    deliver([event])
+  }
+
+  const subscribe = (brand: string, listener: RepoEventListener) => {
+    const listeners = listenersByBrand.get(brand) ?? new Set()
+
+    listeners.add(listener)
+    listenersByBrand.set(brand, listeners)
+
+    return () => {
+      listeners.delete(listener)
+
+      if (listeners.size === 0) {
+        listenersByBrand.delete(brand)
+      }
+    }
+  }
+
+  /**
+   * The change stream is established before the watcher is returned
+   **/
+  const watch = async (
+    db: Db,
+    softDeleteByBrand: Record<string, boolean>,
+    {
+      brands = Object.keys(softDeleteByBrand),
+      fullDocumentBeforeChange,
+      onError,
+    }: WatchOptions = {}
+  ): Promise<RepoWatcher> => {
+    const stream = db.watch(
+      [{ $match: { 'ns.coll': { $in: brands } } }],
+      /* Option unknown to MongoDB prior to 6.0 must be absent */
+      fullDocumentBeforeChange
+        ? { fullDocument: 'updateLookup', fullDocumentBeforeChange }
+        : { fullDocument: 'updateLookup' }
+    )
+
+    let change = await stream.tryNext()
+
+    let isOpen = true
+
+    for (const brand of brands) {
+      watchersByBrand.set(brand, (watchersByBrand.get(brand) ?? 0) + 1)
+    }
+
+    const consume = async () => {
+      try {
+        while (true) {
+          const event =
+            change && getChangeStreamEvent(change, softDeleteByBrand)
+
+          if (event) {
+            deliver([event])
+          }
+
+          change = await stream.next()
+        }
+      } catch (error) {
+        if (stream.closed === false) {
+          onError?.(error)
+        }
+      }
+    }
+
+    const consumed = consume()
+
+    return {
+      close: async () => {
+        if (isOpen) {
+          isOpen = false
+
+          for (const brand of brands) {
+            const count = watchersByBrand.get(brand)! - 1
+
+            if (count === 0) {
+              watchersByBrand.delete(brand)
+            } else {
+              watchersByBrand.set(brand, count)
+            }
+          }
+        }
+
+        await stream.close()
+        await consumed
+      },
+    }
+  }
+
+  return { emit, hold, release, settle, subscribe, watch }
+}
+
+/**
+ * Change stream document as model event. Soft delete and restore
+ * are detected by `deletedAt` change of the update description
+ **/
+export function getChangeStreamEvent(
+  change: ChangeStreamDocument,
+  softDeleteByBrand: Record<string, boolean>
+): RepoEvent | undefined {
+  if (
+    change.operationType !== 'insert' &&
+    change.operationType !== 'update' &&
+    change.operationType !== 'replace' &&
+    change.operationType !== 'delete'
+  ) {
+    return undefined
+  }
+
+  const brand = change.ns.coll
+
+  const before = getSnapshot(
+    'fullDocumentBeforeChange' in change
+      ? change.fullDocumentBeforeChange
+      : undefined
+  )
+
+  const after = getSnapshot(
+    'fullDocument' in change ? change.fullDocument : undefined
+  )
+
+  if (change.operationType === 'delete') {
+    return (
+      before && {
+        type: 'removed',
+        brand,
+        id: before.id as string,
+        before,
+      }
+    )
+  }
+
+  if (after === undefined) {
+    return undefined
+  }
+
+  const event: RepoEvent = {
+    type: change.operationType === 'insert' ? 'created' : 'updated',
+    brand,
+    id: after.id as string,
+    after,
+  }
+
+  if (before) {
+    event.before = before
+  }
+
+  if (typeof after.updatedBy === 'string') {
+    event.userId = after.updatedBy
+  }
+
+  if (change.operationType === 'update' && softDeleteByBrand[brand]) {
+    const { updatedFields = {}, removedFields = [] } = change.updateDescription
+
+    if (typeof updatedFields.deletedAt === 'number') {
+      event.type = 'removed'
+      event.before = before ?? after
+      delete event.after
+    } else if (removedFields.includes('deletedAt')) {
+      event.type = 'created'
+      delete event.before
+    } else if (typeof after.deletedAt === 'number') {
+      return undefined
+    }
+  }
+
+  return event
+}
+
+/* Transaction state is not a part of the driver typings */
+function getState(transaction: Transaction) {
+  return (transaction as unknown as { state: string }).state
+}
+
+function getSnapshot(document: Record<string, unknown> | null | undefined) {
+  if (document === null || document === undefined) {
+    return undefined
+  }
+
+  const snapshot = { ...document }
+
+  sanitizeMongoRecord(snapshot)
+
+  return snapshot
+}
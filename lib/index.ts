@@ -1,10 +1,74 @@
-export { FOREIGN_KEY_BRAND_TYPE, IGNORE_RELATION, ERROR } from './constants'
+export {
+  FOREIGN_KEY_BRAND_TYPE,
+  IGNORE_RELATION,
+  ERROR,
+  ERROR_CODE,
+} from './constants'
+export {
+  RepotoxError,
+  SchemaDefinitionError,
+  MutationError,
+  RecordAlreadyExistsError,
+  RecordNotExistsError,
+  IdIsAlreadyTakenError,
+  SchemaValidationError,
+  ReferenceToNonExistedRecordError,
+  UniqueConstraintError,
+  StaleSafeRemovePlanError,
+  ConcurrentPatchError,
+  WriteFailedError,
+  RestrictedRemoveError,
+  VersionConflictError,
+  InvalidCursorError,
+  InvalidPageSizeError,
+  InvalidPopulateKeyError,
+  AuditIsNotEnabledError,
+  MigrationError,
+  InvalidMigrationError,
+  UnknownMigrationError,
+  IrreversibleMigrationError,
+} from './errors'
+export {
+  initMigrator,
+  loadMigrations,
+  findNonConformingRecords,
+} from './migrations'
 export { initRepo } from './repo'
+export { validateDatabase } from './validation'
+
+export type { ErrorCode } from './errors'
+export type { Migrator } from './migrations'
 
 export type {
+  AuditEntry,
+  FieldKeyPath,
   FieldRelation,
   FieldRelationBilateral,
   FieldRelationUnilateral,
+  HookContext,
+  IndexDefinition,
   InitRepo,
+  InitRepoOptions,
+  Migration,
+  MigrationStatus,
+  ModelHooks,
+  NonConformingRecord,
+  OnDeletePolicy,
+  PatchInput,
+  PopulateOptions,
+  Populated,
+  RepoEvent,
+  RepoEventListener,
+  RepoEventType,
+  RepoModelOptions,
   RepoTox,
+  RepoWatcher,
+  RepotoxConfig,
+  SyncIndexesReport,
+  UniqueConstraint,
+  UpsertResult,
+  ValidationReport,
+  WatchOptions,
+  WriteManyOptions,
+  WriteManyReport,
 } from './types'
@@ -0,0 +1,194 @@
+import fs from 'fs'
+import path from 'path'
+
+import { MIGRATIONS_SYSTEM_COLLECTION } from './constants'
+import {
+  InvalidMigrationError,
+  IrreversibleMigrationError,
+  UnknownMigrationError,
+} from './errors'
+import { sanitizeMongoRecord } from './utils'
+
+import type { MongoClient } from 'mongodb'
+import type {
+  Migration,
+  MigrationStatus,
+  NonConformingRecord,
+  RepoModel,
+} from './types'
+
+export type Migrator = ReturnType<typeof initMigrator>
+
+/**
+ * Migration file exports `up` and optional `down` functions, the file
+ * name without extension is the migration id. Migrations are applied
+ * in the file name order, so prefix the names with a timestamp
+ **/
+export function loadMigrations<R>(dir: string): Migration<R>[] {
+  return fs
+    .readdirSync(dir)
+    .filter((x) => /\.(ts|js)$/.test(x) && x.endsWith('.d.ts') === false)
+    .sort()
+    .map((file) => {
+      const id = path.basename(file, path.extname(file))
+      const { up, down } = require(path.resolve(dir, file))
+
+      if (
+        typeof up !== 'function' ||
+        (down !== undefined && typeof down !== 'function')
+      ) {
+        throw new InvalidMigrationError(id)
+      }
+
+      return { id, up, down }
+    })
+}
+
+/**
+ * Applied migration ids are stored in `__migrations` system collection.
+ * Migration is not wrapped in a transaction and recorded only after
+ * its function is resolved, so the failed one is applied again
+ **/
+export function initMigrator<R extends Record<string, unknown>>(
+  mongoClient: MongoClient,
+  dbName: string,
+  repo: R,
+  migrations: Migration<R>[]
+) {
+  const __migrations = mongoClient
+    .db(dbName)
+    .collection<{ id: string; appliedAt: number }>(MIGRATIONS_SYSTEM_COLLECTION)
+
+  const getMigrationIndex = (id: string) => {
+    const index = migrations.findIndex((x) => x.id === id)
+
+    if (index === -1) {
+      throw new UnknownMigrationError(id)
+    }
+
+    return index
+  }
+
+  const getAppliedIds = async () => {
+    const applied = await __migrations.find().toArray()
+    return new Set(applied.map((x) => x.id))
+  }
+
+  const status = async (): Promise<MigrationStatus[]> => {
+    const applied = await __migrations.find().toArray()
+    const appliedAtById = new Map(applied.map((x) => [x.id, x.appliedAt]))
+
+    return migrations.map(({ id }) => {
+      const appliedAt = appliedAtById.get(id)
+      return appliedAt === undefined ? { id } : { id, appliedAt }
+    })
+  }
+
+  /**
+   * Apply pending migrations up to and including `to`, returns ids
+   * of the applied migrations. With `dryRun` nothing is applied
+   **/
+  const up = async ({ to, dryRun }: { to?: string; dryRun?: boolean } = {}) => {
+    const last =
+      to === undefined ? migrations.length - 1 : getMigrationIndex(to)
+    const appliedIds = await getAppliedIds()
+    const pending = migrations
+      .slice(0, last + 1)
+      .filter((x) => appliedIds.has(x.id) === false)
+
+    if (dryRun) {
+      return pending.map((x) => x.id)
+    }
+
+    const result: string[] = []
+
+    await __migrations.createIndex({ id: 1 }, { unique: true })
+
+    for (const migration of pending) {
+      await migration.up(repo)
+      await __migrations.insertOne({ id: migration.id, appliedAt: Date.now() })
+
+      result.push(migration.id)
+    }
+
+    return result
+  }
+
+  /**
+   * Revert applied migrations down to and including `to`, only the
+   * last applied one without it. Returns ids of the reverted migrations
+   **/
+  const down = async ({ to }: { to?: string } = {}) => {
+    const first = to === undefined ? 0 : getMigrationIndex(to)
+    const appliedIds = await getAppliedIds()
+    const reverting: Array<[id: string, down: (repo: R) => Promise<void>]> = []
+
+    for (const migration of migrations.slice(first).reverse()) {
+      if (appliedIds.has(migration.id) === false) {
+        continue
+      }
+
+      if (migration.down === undefined) {
+        throw new IrreversibleMigrationError(migration.id)
+      }
+
+      reverting.push([migration.id, migration.down])
+
+      if (to === undefined) {
+        break
+      }
+    }
+
+    const result: string[] = []
+
+    for (const [id, down] of reverting) {
+      await down(repo)
+      await __migrations.deleteOne({ id })
+
+      result.push(id)
+    }
+
+    return result
+  }
+
+  return {
+    status,
+    up,
+    down,
+    findNonConformingRecords: (brands?: string[]) =>
+      findNonConformingRecords(repo, brands),
+  }
+}
+
+/**
+ * Parse every stored document, soft deleted included, against the
+ * current model schema. These documents fail `put` until migrated
+ **/
+export async function findNonConformingRecords(
+  repo: Record<string, unknown>,
+  brands: string[] = Object.keys(repo).filter((x) => !x.startsWith('_'))
+) {
+  const result: NonConformingRecord[] = []
+
+  for (const brand of brands) {
+    const model = repo[brand] as RepoModel
+
+    for await (const document of model.mongo().collection.find()) {
+      const record: Record<string, unknown> = { ...document }
+
+      sanitizeMongoRecord(record)
+
+      const either = model.tox.parse(record)
+
+      if (either.success === false) {
+        result.push({
+          brand,
+          id: record.id as string | number,
+          issues: either.error,
+        })
+      }
+    }
+  }
+
+  return result
+}
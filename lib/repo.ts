@@ -1,404 +1,2219 @@
-import { ERROR, USED_UUID_SYSTEM_COLLECTION } from './constants'
+import { randomUUID } from 'crypto'
+import { isDeepStrictEqual } from 'util'
+import { MongoBulkWriteError, MongoServerError } from 'mongodb'
 import {
+  AUDIT_SYSTEM_COLLECTION,
+  ERROR,
+  ERROR_CODE,
+  ID_GENERATION_ATTEMPTS,
+  PATCH_ATTEMPTS,
+  USED_UUID_SYSTEM_COLLECTION,
+} from './constants'
+import {
+  AuditIsNotEnabledError,
+  ConcurrentPatchError,
+  IdIsAlreadyTakenError,
+  InvalidPageSizeError,
+  InvalidPopulateKeyError,
+  RecordAlreadyExistsError,
+  RecordNotExistsError,
+  ReferenceToNonExistedRecordError,
+  RestrictedRemoveError,
+  SchemaDefinitionError,
+  SchemaValidationError,
+  StaleSafeRemovePlanError,
+  UniqueConstraintError,
+  VersionConflictError,
+  WriteFailedError,
+} from './errors'
+import { createEventBus } from './events'
+import {
+  decodeCursor,
+  encodeCursor,
+  getBackReferenceUpdates,
   getCollectionForeignKeyRelations,
+  getGetOptions,
+  getIdGenerator,
+  getIndexesDrift,
+  getKeysetFilter,
+  getModelIndexes,
+  getReferenceIds,
+  getFieldValue,
+  getMongoPath,
+  detachReference,
+  getReportUniqueId,
+  getUniqueIndexes,
+  getVersionKey,
+  getSafeRemovePlanSignature,
   sanitizeMongoRecord,
   getModifiedRepo,
+  getOperationFilter,
+  getSnapshotFilter,
+  isRecordOfVariant,
+  withTransaction,
 } from './utils'
 
-import type { ClientSession, MongoClient } from 'mongodb'
+import type {
+  AnyBulkWriteOperation,
+  ClientSession,
+  Collection,
+  Document,
+  MongoClient,
+  UpdateFilter,
+  WriteError,
+} from 'mongodb'
+
+import type {
+  AnyPopulateOptions,
+  AuditEntry,
+  CommonDoc,
+  FieldRelation,
+  GetOptions,
+  HookContext,
+  InitRepo,
+  InitRepoOptions,
+  MutationReport,
+  PaginateOptions,
+  RepoEvent,
+  RepoEventListener,
+  RepoEventType,
+  RepoModelOptions,
+  RepoTox,
+  SafeRemovePlan,
+  SafeRemoveResult,
+  SyncIndexesReport,
+  WatchOptions,
+  WriteManyOptions,
+  WriteManyReport,
+} from './types'
+
+export function initRepo<
+  T extends Record<string, RepoTox>,
+  O extends InitRepoOptions<T> = {},
+>(
+  mongoClient: MongoClient,
+  dbName: string,
+  models: T,
+  options?: O & InitRepoOptions<T>
+): Promise<InitRepo<T, O>>
+
+export async function initRepo<T extends Record<string, RepoTox>>(
+  mongoClient: MongoClient,
+  dbName: string,
+  modelToxByCollectionName: T,
+  options: InitRepoOptions<Record<string, RepoTox>> = {}
+): Promise<Record<string, unknown>> {
+  const result = {} as any
+  const db = mongoClient.db(dbName)
+
+  const __uuid = db.collection<{ id: string; brand?: string }>(
+    USED_UUID_SYSTEM_COLLECTION
+  )
+  const __audit = db.collection<AuditEntry>(AUDIT_SYSTEM_COLLECTION)
+  const eventBus = createEventBus(options.onListenerError)
+
+  /* Correlation id of the `safeRemove` writes done by the session */
+  const correlationIdBySession = new WeakMap<ClientSession, string>()
+  const softDeleteByBrand: Record<string, boolean> = {}
+  const versionKeyByBrand: Record<string, string | undefined> = {}
+
+  /**
+   * Referenced ids grouped by the target collection, polymorphic foreign
+   * key ids are resolved by the collection registered in `__uuid`. Id
+   * registered without collection is looked up in every target
+   **/
+  const groupIdsByBrand = async (
+    ids: unknown[],
+    brands: string[],
+    session: ClientSession | undefined
+  ) => {
+    const result = new Map<string, unknown[]>(brands.map((x) => [x, []]))
+
+    if (brands.length === 1) {
+      result.set(brands[0]!, ids)
+      return result
+    }
+
+    const registered = await __uuid
+      .find({ id: { $in: ids as string[] } }, { session })
+      .toArray()
+
+    const brandById = new Map(registered.map((x) => [x.id, x.brand]))
+
+    for (const id of ids) {
+      const brand = brandById.get(id as string)
+
+      for (const target of brand === undefined ? brands : [brand]) {
+        result.get(target)?.push(id)
+      }
+    }
+
+    return result
+  }
+
+  const expectedIndexes: Array<
+    [
+      collection: Collection<Document>,
+      indexes: ReturnType<typeof getModelIndexes>,
+    ]
+  > = [[db.collection(USED_UUID_SYSTEM_COLLECTION), getModelIndexes([])]]
+
+  /* Listing indexes of not yet created collection fails with `NamespaceNotFound` */
+  const getExistingIndexes = (collection: Collection<Document>) =>
+    collection
+      .listIndexes()
+      .toArray()
+      .catch((error) => {
+        if (error instanceof MongoServerError && error.code === 26) {
+          return []
+        }
+
+        throw error
+      })
+
+  const getModelOptions = (collectionName: string): RepoModelOptions =>
+    options.models?.[collectionName] ?? {}
+
+  /* Cross-model reads of the records bypassing `afterGet` hook */
+  const getters: Record<
+    string,
+    (
+      filter: Record<string, unknown>,
+      session: ClientSession | undefined
+    ) => Promise<Array<Record<string, unknown>>>
+  > = {}
+
+  /* Audit trail writers of the models with `audit` option */
+  const auditors: Record<
+    string,
+    (
+      events: RepoEvent[],
+      session: ClientSession | undefined,
+      userId: string | undefined,
+      timestamp: number
+    ) => Promise<void>
+  > = {}
+
+  const safeRemoveStagers: Record<
+    string,
+    (
+      id: string,
+      session: ClientSession | undefined,
+      plan: SafeRemovePlan
+    ) => Promise<void>
+  > = {}
+
+  const foreignKeyRelationsByCollectionName = {} as Record<
+    string,
+    ReturnType<typeof getCollectionForeignKeyRelations>
+  >
+
+  for (const collectionName in modelToxByCollectionName) {
+    foreignKeyRelationsByCollectionName[collectionName] =
+      getCollectionForeignKeyRelations(
+        modelToxByCollectionName,
+        collectionName,
+        getModelOptions(collectionName).onDelete
+      )
+  }
+
+  for (const collectionName in modelToxByCollectionName) {
+    const { tox, schemaKeys, relations } =
+      foreignKeyRelationsByCollectionName[collectionName]!
+
+    /* Relations of any collection which point to the current one */
+    const incomingRelations = [] as Array<{
+      brand: string
+      relation: FieldRelation
+    }>
+
+    for (const brand in foreignKeyRelationsByCollectionName) {
+      for (const relation of foreignKeyRelationsByCollectionName[brand]!
+        .relations) {
+        const targets = ([] as string[]).concat(relation.targetCollectionName)
+
+        if (targets.includes(collectionName)) {
+          incomingRelations.push({ brand, relation })
+        }
+      }
+    }
+
+    const {
+      softDelete = false,
+      indexes = [],
+      unique = [],
+      generateId: idGenerator,
+      version,
+      hooks = {},
+      audit = false,
+    } = getModelOptions(collectionName)
+
+    const generateId = idGenerator && getIdGenerator(idGenerator)
+    const versionKey = getVersionKey(tox, collectionName, version)
+
+    softDeleteByBrand[collectionName] = softDelete
+    versionKeyByBrand[collectionName] = versionKey
+
+    if (softDelete && schemaKeys.has('deletedAt') === false) {
+      throw new SchemaDefinitionError(
+        ERROR_CODE.noDeletedAtField,
+        ERROR.noDeletedAtField(collectionName),
+        collectionName
+      )
+    }
+
+    const collection = db.collection(collectionName)
+
+    const uniqueIndexes = getUniqueIndexes(tox, collectionName, unique)
+
+    expectedIndexes.push([
+      collection,
+      getModelIndexes(relations, [...uniqueIndexes, ...indexes]),
+    ])
+
+    /**
+     * Replace foreign keys of the records with the referenced
+     * records, each key is resolved by a single `$in` query
+     **/
+    const populate = async (
+      records: Array<Record<string, unknown>>,
+      populateOptions: AnyPopulateOptions,
+      session: ClientSession | undefined
+    ) => {
+      for (const option of populateOptions) {
+        const entries =
+          typeof option === 'string'
+            ? [[option, undefined] as const]
+            : Object.entries(option)
+
+        for (const [fieldKey, nestedOptions] of entries) {
+          const fieldRelations = relations.filter(
+            (x) => x.sourceCollectionFieldKey === fieldKey
+          )
+
+          /* Foreign key of nested object is not replaced in place */
+          if (fieldRelations.length === 0 || /[.[]/.test(fieldKey)) {
+            throw new InvalidPopulateKeyError(collectionName, fieldKey)
+          }
+
+          const ids = Array.from(
+            new Set(records.flatMap((x) => getReferenceIds(x[fieldKey])))
+          )
+
+          const referencedById = new Map<unknown, unknown>()
+
+          /* Union target is related once per mirrored variant */
+          const brands = new Set(
+            fieldRelations.flatMap((x) => x.targetCollectionName)
+          )
+
+          const idsByBrand = await groupIdsByBrand(ids, [...brands], session)
+
+          for (const [brand, brandIds] of idsByBrand) {
+            if (brandIds.length === 0) {
+              continue
+            }
+
+            const referenced = (await result[brand].get(
+              { id: { $in: brandIds } },
+              { session, populate: nestedOptions }
+            )) as CommonDoc[]
+
+            for (const x of referenced) {
+              referencedById.set(x.id, x)
+            }
+          }
+
+          for (const record of records) {
+            const value = record[fieldKey]
+
+            if (value === undefined || value === null) {
+              continue
+            }
+
+            if (Array.isArray(value)) {
+              record[fieldKey] = value
+                .map((id) => referencedById.get(id))
+                .filter((x) => x !== undefined)
+
+              continue
+            }
+
+            if (referencedById.has(value)) {
+              record[fieldKey] = referencedById.get(value)
+            } else {
+              delete record[fieldKey]
+            }
+          }
+        }
+      }
+    }
+
+    const getHookContext = (
+      session: ClientSession | undefined,
+      userId?: string
+    ): HookContext => ({ brand: collectionName, session, userId })
+
+    /**
+     * Run `before` hook, the returned value replaces the input
+     **/
+    const runBeforeHook = async (
+      hook: NonNullable<RepoModelOptions['hooks']>['beforePost'],
+      input: CommonDoc,
+      session: ClientSession | undefined,
+      userId: string | undefined
+    ) => {
+      const output = await hook?.(input, getHookContext(session, userId))
+      return (output ?? input) as CommonDoc
+    }
+
+    /**
+     * Audit trail entries share the timestamp of the write,
+     * so `asOf` of the record `updatedAt` returns the record
+     **/
+    const writeAuditEntries = async (
+      events: RepoEvent[],
+      session: ClientSession | undefined,
+      userId: string | undefined,
+      timestamp: number
+    ) => {
+      const sessionId = session?.id?.id.toString('hex')
+      const correlationId = session && correlationIdBySession.get(session)
+
+      const entries = events.map(({ type, id, after }) => {
+        const entry: AuditEntry = {
+          brand: collectionName,
+          id,
+          operation: type,
+          timestamp,
+        }
+
+        if (userId) {
+          entry.userId = userId
+        }
+
+        if (sessionId) {
+          entry.sessionId = sessionId
+        }
+
+        if (correlationId) {
+          entry.correlationId = correlationId
+        }
+
+        if (after) {
+          entry.snapshot = after
+        }
+
+        return entry
+      })
+
+      if (entries.length) {
+        await __audit.insertMany(entries, { session })
+      }
+    }
+
+    if (audit) {
+      auditors[collectionName] = writeAuditEntries
+    }
+
+    /**
+     * Write audit trail entries and emit events of the written records
+     **/
+    const recordChanges = async (
+      changes: Array<
+        [
+          type: RepoEventType,
+          before: Record<string, unknown> | undefined,
+          after: Record<string, unknown> | undefined,
+        ]
+      >,
+      session: ClientSession | undefined,
+      userId: string | undefined,
+      timestamp: number
+    ) => {
+      const events = changes.map(([type, before, after]) => {
+        const event: RepoEvent = {
+          type,
+          brand: collectionName,
+          id: (after ?? before)!.id as string,
+        }
+
+        if (before) {
+          event.before = before
+        }
+
+        if (after) {
+          event.after = after
+        }
+
+        if (userId) {
+          event.userId = userId
+        }
+
+        return event
+      })
+
+      if (audit) {
+        await writeAuditEntries(events, session, userId, timestamp)
+      }
+
+      for (const event of events) {
+        eventBus.emit(event, session)
+      }
+    }
+
+    const get = async (
+      filter: Record<string, unknown> = {},
+      sessionOrOptions: ClientSession | GetOptions<unknown> | undefined
+    ): Promise<Array<Record<string, string>>> => {
+      const {
+        session,
+        sort,
+        skip,
+        limit,
+        projection,
+        populate: populateOptions,
+        withDeleted,
+      } = getGetOptions(sessionOrOptions)
+
+      eventBus.settle(session)
+
+      if (softDelete && withDeleted !== true) {
+        filter = { $and: [filter, { deletedAt: null }] }
+      }
+
+      const res = await collection
+        .find(filter, {
+          session,
+          sort,
+          skip,
+          limit,
+          projection: projection && { ...projection, id: 1 },
+        })
+        .toArray()
+
+      if (res === undefined) {
+        return []
+      }
+
+      for (const x of res) {
+        sanitizeMongoRecord(x)
+      }
+
+      if (populateOptions) {
+        await populate(res, populateOptions, session)
+      }
+
+      return res
+    }
+
+    /**
+     * Public `get`, internal reads of the records do not run `afterGet`
+     **/
+    const getRecords = async (
+      filter: Record<string, unknown> | undefined,
+      sessionOrOptions: ClientSession | GetOptions<unknown> | undefined
+    ) => {
+      const records = await get(filter, sessionOrOptions)
+      const { session, userId } = getGetOptions(sessionOrOptions)
+
+      await hooks.afterGet?.(records, getHookContext(session, userId))
+
+      return records
+    }
+
+    getters[collectionName] = get
+
+    const paginate = async ({
+      filter = {},
+      sortBy = 'id',
+      order = 1,
+      after,
+      first,
+      session,
+      userId,
+    }: PaginateOptions<Record<string, unknown>>) => {
+      if (Number.isInteger(first) === false || first < 1) {
+        throw new InvalidPageSizeError(first)
+      }
+
+      const keysetFilter =
+        after === undefined
+          ? filter
+          : {
+              $and: [
+                filter,
+                getKeysetFilter(sortBy, order, decodeCursor(after)),
+              ],
+            }
+
+      const records = await get(keysetFilter, {
+        session,
+        sort: sortBy === 'id' ? { id: order } : { [sortBy]: order, id: order },
+        limit: first + 1,
+      })
+
+      const items = records.slice(0, first)
+      const last = items[items.length - 1]
+
+      await hooks.afterGet?.(items, getHookContext(session, userId))
+
+      return {
+        items,
+        pageInfo: {
+          endCursor: last && encodeCursor([last[sortBy] ?? null, last.id]),
+          hasNextPage: records.length > first,
+        },
+      }
+    }
+
+    /**
+     * Unique constraint fields must not match any other record
+     * including soft deleted one which keeps its index entry
+     **/
+    const assertUnique = async (
+      record: Record<string, unknown>,
+      session: ClientSession | undefined
+    ) => {
+      for (const { fields, variant = {} } of unique) {
+        const isConstrained =
+          Object.entries(variant).every(
+            ([key, value]) => record[key] === value
+          ) &&
+          fields.every((key) => {
+            const value = record[key]
+            return value !== undefined && value !== null
+          })
+
+        if (isConstrained === false) {
+          continue
+        }
+
+        const filter: Record<string, unknown> = { ...variant }
+
+        for (const key of fields) {
+          filter[key] = record[key]
+        }
+
+        const [conflict] = await get(
+          { ...filter, id: { $ne: record.id } },
+          { session, withDeleted: true, limit: 1 }
+        )
+
+        if (conflict !== undefined) {
+          throw new UniqueConstraintError(
+            collectionName,
+            record.id as string,
+            fields,
+            conflict.id as string
+          )
+        }
+      }
+    }
+
+    /**
+     * Concurrent write could pass `assertUnique` check and hit the
+     * unique index, the duplicate key error message is translated
+     * if the conflicting record is visible outside of the session
+     **/
+    const getUniqueConstraintError = async (
+      record: CommonDoc,
+      errorMessage: string | undefined
+    ) => {
+      const [, indexName] = errorMessage?.match(/index: (\S+) dup key/) ?? []
+      const index = uniqueIndexes.findIndex((x) => x.name === indexName)
+      const constraint = unique[index]
+
+      if (constraint === undefined) {
+        return undefined
+      }
+
+      const filter: Record<string, unknown> = { ...constraint.variant }
+
+      for (const key of constraint.fields) {
+        filter[key] = record[key as keyof CommonDoc]
+      }
+
+      const conflict = await collection.findOne({
+        ...filter,
+        id: { $ne: record.id },
+      })
+
+      return (
+        conflict &&
+        new UniqueConstraintError(
+          collectionName,
+          record.id,
+          constraint.fields,
+          conflict.id
+        )
+      )
+    }
+
+    /**
+     * Version of the record to be written. The `updatedAt`
+     * version is kept increasing within the same millisecond
+     **/
+    const setNextVersion = (
+      record: Record<string, unknown>,
+      currentVersion: unknown
+    ) => {
+      if (versionKey === undefined) {
+        return
+      }
+
+      const next = typeof currentVersion === 'number' ? currentVersion + 1 : 1
+
+      record[versionKey] =
+        versionKey === 'updatedAt'
+          ? Math.max(record.updatedAt as number, next)
+          : next
+    }
+
+    /**
+     * Version field of the record updated in place, soft delete
+     * and restore bump the version as the other writes do
+     **/
+    const getNextVersionUpdate = (
+      record: Record<string, unknown>,
+      timestamp: number
+    ): Partial<CommonDoc> => {
+      if (versionKey === undefined) {
+        return {}
+      }
+
+      const update: Record<string, unknown> = { updatedAt: timestamp }
+
+      setNextVersion(update, record[versionKey])
+
+      return { [versionKey]: update[versionKey] }
+    }
+
+    const getVersionConflictError = (
+      record: Record<string, unknown>,
+      expectedVersion: unknown
+    ) => {
+      if (versionKey === undefined) {
+        return undefined
+      }
+
+      const actualVersion = record[versionKey]
+
+      return actualVersion === expectedVersion
+        ? undefined
+        : new VersionConflictError(
+            collectionName,
+            record.id as string,
+            expectedVersion,
+            actualVersion
+          )
+    }
+
+    /**
+     * Versioned record is replaced only if the stored version is
+     * still the expected one, otherwise `VersionConflictError` is
+     * thrown with the version of the concurrent write
+     **/
+    const replaceRecord = async (
+      record: CommonDoc,
+      upsert: boolean,
+      session: ClientSession | undefined,
+      expectedVersion?: unknown
+    ) => {
+      const filter: Document = { id: record.id }
+
+      if (versionKey && upsert === false) {
+        filter[versionKey] = expectedVersion ?? null
+      }
+
+      try {
+        const { matchedCount } = await collection.replaceOne(filter, record, {
+          upsert,
+          session,
+        })
+
+        if (versionKey && upsert === false && matchedCount === 0) {
+          const stored = await collection.findOne(
+            { id: record.id },
+            { session }
+          )
+
+          throw new VersionConflictError(
+            collectionName,
+            record.id,
+            expectedVersion,
+            stored?.[versionKey] ?? undefined
+          )
+        }
+      } catch (error) {
+        if (error instanceof MongoServerError && error.code === 11000) {
+          throw (await getUniqueConstraintError(record, error.message)) ?? error
+        }
+
+        throw error
+      }
+    }
+
+    /**
+     * Every foreign key value must point to existed record
+     * of one of the relation target collections, of the mirrored
+     * variant for union target. The records are checked by
+     * a single query per foreign key target
+     **/
+    const getReferenceErrors = async (
+      records: Array<Record<string, unknown>>,
+      session: ClientSession | undefined
+    ) => {
+      const errors: Array<ReferenceToNonExistedRecordError | undefined> =
+        records.map(() => undefined)
+
+      const targetsByFieldKey = new Map<
+        string,
+        Map<string, Array<Record<string, unknown>>>
+      >()
+
+      for (const relation of relations) {
+        const fieldKey = relation.sourceCollectionFieldKey
+        const targets = targetsByFieldKey.get(fieldKey) ?? new Map()
+        const variant =
+          'targetVariant' in relation ? relation.targetVariant : undefined
+
+        for (const targetCollectionName of ([] as string[]).concat(
+          relation.targetCollectionName
+        )) {
+          targets.set(
+            targetCollectionName,
+            (targets.get(targetCollectionName) ?? []).concat(variant ?? {})
+          )
+        }
+
+        targetsByFieldKey.set(fieldKey, targets)
+      }
+
+      for (const [fieldKey, targets] of targetsByFieldKey) {
+        const ids = Array.from(
+          new Set(
+            records.flatMap((x) => getReferenceIds(getFieldValue(x, fieldKey)))
+          )
+        )
+
+        if (ids.length === 0) {
+          continue
+        }
+
+        const existedIds = new Set<unknown>()
+        const idsByBrand = await groupIdsByBrand(
+          ids,
+          [...targets.keys()],
+          session
+        )
+
+        for (const [targetCollectionName, variants] of targets) {
+          const targetIds = idsByBrand.get(targetCollectionName)!
+
+          if (targetIds.length === 0) {
+            continue
+          }
+
+          const existed = await db
+            .collection(targetCollectionName)
+            .find(
+              getModelOptions(targetCollectionName).softDelete
+                ? { id: { $in: targetIds }, $or: variants, deletedAt: null }
+                : { id: { $in: targetIds }, $or: variants },
+              { projection: { id: 1 }, session }
+            )
+            .toArray()
+
+          for (const x of existed) {
+            existedIds.add(x.id)
+          }
+        }
+
+        records.forEach((record, index) => {
+          const missingId = getReferenceIds(
+            getFieldValue(record, fieldKey)
+          ).find((id) => existedIds.has(id) === false)
+
+          if (missingId !== undefined && errors[index] === undefined) {
+            errors[index] = new ReferenceToNonExistedRecordError(
+              collectionName,
+              record.id as string,
+              fieldKey,
+              missingId
+            )
+          }
+        })
+      }
+
+      return errors
+    }
+
+    const assertReferencesExist = async (
+      record: Record<string, unknown>,
+      session: ClientSession | undefined
+    ) => {
+      const [error] = await getReferenceErrors([record], session)
+
+      if (error !== undefined) {
+        throw error
+      }
+    }
+
+    /**
+     * Keep bilateral relation mirror fields in sync with the records.
+     * Updated records of audited models get `updated` audit entries
+     **/
+    const syncBackReferences = async (
+      changes: Array<
+        [
+          before: Record<string, unknown> | undefined,
+          after: Record<string, unknown> | undefined,
+        ]
+      >,
+      session: ClientSession | undefined,
+      userId: string | undefined,
+      timestamp: number
+    ) => {
+      const operationsByCollectionName = new Map<
+        string,
+        AnyBulkWriteOperation[]
+      >()
+
+      for (const [before, after] of changes) {
+        for (const [targetCollectionName, operation] of getBackReferenceUpdates(
+          relations,
+          before,
+          after,
+          versionKeyByBrand,
+          timestamp
+        )) {
+          const operations =
+            operationsByCollectionName.get(targetCollectionName) ?? []
+
+          operations.push(operation)
+          operationsByCollectionName.set(targetCollectionName, operations)
+        }
+      }
+
+      for (const [
+        targetCollectionName,
+        operations,
+      ] of operationsByCollectionName) {
+        const writeAuditEntries = auditors[targetCollectionName]
+        const getTargets = getters[targetCollectionName]!
+
+        const targetsBefore = writeAuditEntries
+          ? await getTargets(
+              { $or: operations.map(getOperationFilter) },
+              session
+            )
+          : []
+
+        await db
+          .collection(targetCollectionName)
+          .bulkWrite(operations, { ordered: true, session })
+
+        if (writeAuditEntries === undefined || targetsBefore.length === 0) {
+          continue
+        }
+
+        const targetsAfter = await getTargets(
+          { id: { $in: targetsBefore.map((x) => x.id) } },
+          session
+        )
+
+        const events = targetsAfter.flatMap((after): RepoEvent[] => {
+          const before = targetsBefore.find((x) => x.id === after.id)
+
+          if (isDeepStrictEqual(before, after)) {
+            return []
+          }
+
+          return [
+            {
+              type: 'updated',
+              brand: targetCollectionName,
+              id: after.id as string,
+              before,
+              after,
+            },
+          ]
+        })
+
+        await writeAuditEntries(events, session, userId, timestamp)
+      }
+    }
+
+    /**
+     * Generated id must not be taken by any record of any model,
+     * on collision another one is generated
+     **/
+    const getGeneratedId = async (
+      generate: () => string,
+      session: ClientSession | undefined
+    ) => {
+      let id = ''
+
+      for (let attempt = 0; attempt < ID_GENERATION_ATTEMPTS; attempt += 1) {
+        id = generate()
+
+        if ((await __uuid.findOne({ id }, { session })) === null) {
+          return id
+        }
+      }
+
+      throw new IdIsAlreadyTakenError(collectionName, id)
+    }
+
+    /**
+     * Batch counterpart of `getGeneratedId`. Candidates of all the
+     * inputs without id are checked by a single query per attempt
+     * and only the collided ones are generated again. Returns errors
+     * of the inputs left without id by their indexes
+     **/
+    const setGeneratedIds = async (
+      inputs: Array<CommonDoc | undefined>,
+      generate: () => string,
+      session: ClientSession | undefined
+    ) => {
+      const reservedIds = new Set(inputs.flatMap((x) => (x ? [x.id] : [])))
+      let collisions: Array<[index: number, id: string]> = []
+      let pending = inputs.flatMap((x, index) =>
+        x && x.id === undefined ? [index] : []
+      )
+
+      for (
+        let attempt = 0;
+        attempt < ID_GENERATION_ATTEMPTS && pending.length > 0;
+        attempt += 1
+      ) {
+        const candidates = pending.map((index) => [index, generate()] as const)
+
+        const takenIds = new Set(
+          (
+            await __uuid
+              .find(
+                { id: { $in: candidates.map(([, id]) => id) } },
+                { session }
+              )
+              .toArray()
+          ).map((x) => x.id)
+        )
+
+        collisions = []
+
+        for (const [index, id] of candidates) {
+          if (takenIds.has(id) || reservedIds.has(id)) {
+            collisions.push([index, id])
+          } else {
+            reservedIds.add(id)
+            inputs[index]!.id = id
+          }
+        }
+
+        pending = collisions.map(([index]) => index)
+      }
+
+      return new Map(
+        collisions.map(([index, id]) => [
+          index,
+          new IdIsAlreadyTakenError(collectionName, id),
+        ])
+      )
+    }
+
+    const post = async (
+      input: CommonDoc,
+      session: ClientSession | undefined,
+      userId: string | undefined
+    ) => {
+      input = await runBeforeHook(hooks.beforePost, input, session, userId)
+
+      if (input.id === undefined && generateId !== undefined) {
+        input.id = await getGeneratedId(generateId, session)
+      }
+
+      const timestamp = Date.now()
+
+      input.createdAt = timestamp
+      input.updatedAt = timestamp
+
+      if (userId) {
+        input.createdBy = userId
+        input.updatedBy = userId
+      }
+
+      setNextVersion(input, undefined)
+
+      const either = tox.parse(input)
+
+      if (either.success === false) {
+        throw new SchemaValidationError(collectionName, input.id, either.error)
+      }
+
+      const uuid = await __uuid.findOne({ id: input.id }, { session })
+
+      if (uuid !== null) {
+        throw new IdIsAlreadyTakenError(collectionName, uuid.id)
+      }
+
+      const [record] = await get({ id: input.id }, session)
+
+      if (record !== undefined) {
+        throw new RecordAlreadyExistsError(collectionName, input.id)
+      }
+
+      const stagedRecord = either.data as CommonDoc
+
+      await assertReferencesExist(stagedRecord, session)
+      await assertUnique(stagedRecord, session)
+
+      await replaceRecord(stagedRecord, true, session)
+
+      await __uuid.insertOne(
+        { id: input.id, brand: collectionName },
+        { session }
+      )
+
+      await syncBackReferences(
+        [[undefined, stagedRecord]],
+        session,
+        userId,
+        timestamp
+      )
+
+      const [createdRecord] = await get({ id: stagedRecord.id }, session)
+
+      await hooks.afterPost?.(createdRecord!, getHookContext(session, userId))
+
+      await recordChanges(
+        [['created', undefined, createdRecord]],
+        session,
+        userId,
+        timestamp
+      )
+
+      return createdRecord
+    }
+
+    const put = async (
+      input: CommonDoc,
+      session: ClientSession | undefined,
+      userId: string | undefined
+    ) => {
+      input = await runBeforeHook(hooks.beforePut, input, session, userId)
+
+      const expectedVersion = versionKey && input[versionKey as keyof CommonDoc]
+      const timestamp = Date.now()
+
+      input.updatedAt = timestamp
+
+      if (userId) {
+        input.updatedBy = userId
+      }
+
+      setNextVersion(input, expectedVersion)
+
+      const either = tox.parse(input)
+
+      if (either.success === false) {
+        throw new SchemaValidationError(collectionName, input.id, either.error)
+      }
+
+      const [record] = await get({ id: input.id }, session)
+
+      if (record === undefined) {
+        throw new RecordNotExistsError(collectionName, input.id)
+      }
+
+      const versionConflictError = getVersionConflictError(
+        record,
+        expectedVersion
+      )
+
+      if (versionConflictError) {
+        throw versionConflictError
+      }
+
+      const stagedRecord = either.data as CommonDoc
+
+      await assertReferencesExist(stagedRecord, session)
+      await assertUnique(stagedRecord, session)
+
+      for (const key of schemaKeys) {
+        // @ts-expect-error absent props must be set to undefined
+        stagedRecord[key] = stagedRecord[key] ?? undefined
+      }
+
+      await replaceRecord(stagedRecord, false, session, expectedVersion)
+
+      return finishUpdate(record, stagedRecord, session, userId, timestamp)
+    }
+
+    /**
+     * Back references, `afterPut` hook and the record changes
+     * of the written `put` or `patch`
+     **/
+    const finishUpdate = async (
+      record: Record<string, unknown>,
+      stagedRecord: CommonDoc,
+      session: ClientSession | undefined,
+      userId: string | undefined,
+      timestamp: number
+    ) => {
+      await syncBackReferences(
+        [[record, stagedRecord]],
+        session,
+        userId,
+        timestamp
+      )
+
+      const [updatedRecord] = await get({ id: stagedRecord.id }, session)
+
+      await hooks.afterPut?.(updatedRecord!, getHookContext(session, userId))
+
+      await recordChanges(
+        [['updated', record, updatedRecord]],
+        session,
+        userId,
+        timestamp
+      )
+
+      return updatedRecord
+    }
+
+    /**
+     * Duplicate of the record id means the record is created
+     * concurrently, other rejections keep the database error code
+     **/
+    const getWriteError = async (record: CommonDoc, writeError: WriteError) => {
+      if (writeError.code === 11000) {
+        if (/index: id_1 dup key/.test(writeError.errmsg ?? '')) {
+          return new RecordAlreadyExistsError(collectionName, record.id)
+        }
+
+        const error = await getUniqueConstraintError(record, writeError.errmsg)
+
+        if (error) {
+          return error
+        }
+      }
+
+      return new WriteFailedError(
+        collectionName,
+        record.id,
+        writeError.code,
+        writeError.errmsg ?? ''
+      )
+    }
+
+    /**
+     * Bulk counterpart of `post` and `put`. Each stage is done for
+     * all the inputs at once and the records are written by a single
+     * `bulkWrite`. In ordered mode nothing after the first failed
+     * input is written
+     **/
+    const writeMany = async (
+      mode: 'post' | 'put',
+      inputs: CommonDoc[],
+      { session, userId, ordered = true }: WriteManyOptions = {}
+    ): Promise<WriteManyReport> => {
+      eventBus.settle(session)
+
+      const timestamp = Date.now()
+      const errors = new Map<number, Error>()
+      const records: Array<CommonDoc | undefined> = []
+      const expectedVersions: unknown[] = []
+      const hookedInputs: Array<CommonDoc | undefined> = []
+
+      for (const [index, rawInput] of inputs.entries()) {
+        try {
+          hookedInputs.push(
+            await runBeforeHook(
+              mode === 'post' ? hooks.beforePost : hooks.beforePut,
+              rawInput,
+              session,
+              userId
+            )
+          )
+        } catch (error) {
+          errors.set(index, error as Error)
+          hookedInputs.push(undefined)
+        }
+      }
+
+      if (mode === 'post' && generateId !== undefined) {
+        const idErrors = await setGeneratedIds(
+          hookedInputs,
+          generateId,
+          session
+        )
+
+        idErrors.forEach((error, index) => errors.set(index, error))
+      }
+
+      for (const [index, input] of hookedInputs.entries()) {
+        if (input === undefined || errors.has(index)) {
+          records.push(undefined)
+          expectedVersions.push(undefined)
+          continue
+        }
+
+        expectedVersions.push(
+          mode === 'put' && versionKey
+            ? input[versionKey as keyof CommonDoc]
+            : undefined
+        )
+
+        if (mode === 'post') {
+          input.createdAt = timestamp
+
+          if (userId) {
+            input.createdBy = userId
+          }
+        }
+
+        input.updatedAt = timestamp
+
+        if (userId) {
+          input.updatedBy = userId
+        }
+
+        setNextVersion(input, expectedVersions[index])
+
+        const either = tox.parse(input)
+
+        if (either.success === false) {
+          errors.set(
+            index,
+            new SchemaValidationError(collectionName, input.id, either.error)
+          )
+          records.push(undefined)
+          continue
+        }
+
+        records.push(either.data as CommonDoc)
+      }
+
+      /* Ids must be unique within the inputs and satisfy `post`/`put` */
+
+      const ids = records.flatMap((x) => (x ? [x.id] : []))
+      const seenIds = new Set<string>()
+
+      const takenIds =
+        mode === 'post'
+          ? new Set(
+              (
+                await __uuid.find({ id: { $in: ids } }, { session }).toArray()
+              ).map((x) => x.id)
+            )
+          : new Set<string>()
+
+      const existedRecords = new Map(
+        (await get({ id: { $in: ids } }, session)).map((x) => [x.id, x])
+      )
+
+      for (const [index, record] of records.entries()) {
+        if (record === undefined) {
+          continue
+        }
+
+        if (seenIds.has(record.id) || takenIds.has(record.id)) {
+          errors.set(
+            index,
+            new IdIsAlreadyTakenError(collectionName, record.id)
+          )
+        } else if (mode === 'post' && existedRecords.has(record.id)) {
+          errors.set(
+            index,
+            new RecordAlreadyExistsError(collectionName, record.id)
+          )
+        } else if (mode === 'put') {
+          const existedRecord = existedRecords.get(record.id)
+
+          const error =
+            existedRecord === undefined
+              ? new RecordNotExistsError(collectionName, record.id)
+              : getVersionConflictError(existedRecord, expectedVersions[index])
+
+          if (error) {
+            errors.set(index, error)
+          }
+        }
+
+        seenIds.add(record.id)
+      }
+
+      const referenceErrors = await getReferenceErrors(
+        records.map((x) => x ?? {}),
+        session
+      )
+
+      referenceErrors.forEach((error, index) => {
+        if (error !== undefined && errors.has(index) === false) {
+          errors.set(index, error)
+        }
+      })
+
+      /* Write */
+
+      const firstErrorIndex = ordered
+        ? Math.min(inputs.length, ...errors.keys())
+        : inputs.length
+
+      const writable: Array<[index: number, record: CommonDoc]> = []
+
+      for (const [index, record] of records.entries()) {
+        if (index < firstErrorIndex && record && errors.has(index) === false) {
+          writable.push([index, record])
+        }
+      }
+
+      for (const [, record] of writable) {
+        if (mode === 'put') {
+          for (const key of schemaKeys) {
+            // @ts-expect-error absent props must be set to undefined
+            record[key] = record[key] ?? undefined
+          }
+        }
+      }
+
+      const written = new Set<number>(writable.map(([index]) => index))
+
+      if (writable.length) {
+        try {
+          await collection.bulkWrite(
+            writable.map(([index, record]) =>
+              mode === 'post'
+                ? { insertOne: { document: record } }
+                : {
+                    replaceOne: {
+                      filter: versionKey
+                        ? {
+                            id: record.id,
+                            [versionKey]: expectedVersions[index] ?? null,
+                          }
+                        : { id: record.id },
+                      replacement: record,
+                    },
+                  }
+            ),
+            { ordered, session }
+          )
+        } catch (error) {
+          if (error instanceof MongoBulkWriteError === false) {
+            throw error
+          }
+
+          const writeErrors = ([] as WriteError[]).concat(error.writeErrors)
+
+          for (const writeError of writeErrors) {
+            const [index, record] = writable[writeError.index]!
+
+            errors.set(index, await getWriteError(record, writeError))
+          }
+
+          const failedWriteIndex = Math.min(...writeErrors.map((x) => x.index))
+
+          writable.forEach(([index], writeIndex) => {
+            if (
+              errors.has(index) ||
+              (ordered && writeIndex > failedWriteIndex)
+            ) {
+              written.delete(index)
+            }
+          })
+        }
+      }
+
+      /* Conditional replace of concurrently updated record is a no-op */
+      if (mode === 'put' && versionKey && written.size) {
+        const storedVersionById = new Map(
+          (
+            await collection
+              .find(
+                { id: { $in: writable.map(([, record]) => record.id) } },
+                { session, projection: { id: 1, [versionKey]: 1 } }
+              )
+              .toArray()
+          ).map((x) => [x.id, x[versionKey]])
+        )
+
+        for (const [index, record] of writable) {
+          const storedVersion = storedVersionById.get(record.id)
+          const stagedVersion = record[versionKey as keyof CommonDoc]
+
+          if (written.has(index) && storedVersion !== stagedVersion) {
+            written.delete(index)
+            errors.set(
+              index,
+              new VersionConflictError(
+                collectionName,
+                record.id,
+                expectedVersions[index],
+                storedVersion
+              )
+            )
+          }
+        }
+      }
+
+      const writtenRecords = writable.flatMap(([index, record]) =>
+        written.has(index) ? [record] : []
+      )
+
+      if (mode === 'post' && writtenRecords.length) {
+        await __uuid.insertMany(
+          writtenRecords.map(({ id }) => ({ id, brand: collectionName })),
+          { session }
+        )
+      }
+
+      await syncBackReferences(
+        writtenRecords.map((record) => [
+          mode === 'post' ? undefined : existedRecords.get(record.id),
+          record,
+        ]),
+        session,
+        userId,
+        timestamp
+      )
+
+      const afterHook = mode === 'post' ? hooks.afterPost : hooks.afterPut
+
+      for (const record of writtenRecords) {
+        await afterHook?.(record, getHookContext(session, userId))
+      }
+
+      await recordChanges(
+        writtenRecords.map((record) =>
+          mode === 'post'
+            ? ['created', undefined, record]
+            : ['updated', existedRecords.get(record.id), record]
+        ),
+        session,
+        userId,
+        timestamp
+      )
+
+      /* Report */
+
+      const report: WriteManyReport = { succeeded: [], failed: [], skipped: [] }
+      const firstFailedIndex = Math.min(inputs.length, ...errors.keys())
+
+      inputs.forEach((input, index) => {
+        const mutationReport: MutationReport = [
+          collectionName,
+          records[index]?.id ?? input.id,
+        ]
+        const error = errors.get(index)
+
+        if (written.has(index)) {
+          report.succeeded.push(mutationReport)
+        } else if (ordered && index > firstFailedIndex) {
+          report.skipped.push({ index, report: mutationReport })
+        } else if (error !== undefined) {
+          report.failed.push({ index, report: mutationReport, error })
+        }
+      })
+
+      return report
+    }
+
+    const postMany = (
+      inputs: CommonDoc[],
+      options: WriteManyOptions | undefined
+    ) => writeMany('post', inputs, options)
+
+    const putMany = (
+      inputs: CommonDoc[],
+      options: WriteManyOptions | undefined
+    ) => writeMany('put', inputs, options)
+
+    const upsert = async (
+      input: CommonDoc,
+      session: ClientSession | undefined,
+      userId: string | undefined
+    ) => {
+      /* The id could be taken by a record of another model */
+      const uuid = await __uuid.findOne({ id: input.id }, { session })
+
+      if (uuid !== null) {
+        const [record] = await get({ id: input.id }, session)
+
+        if (record === undefined) {
+          throw new IdIsAlreadyTakenError(collectionName, uuid.id)
+        }
+      }
+
+      input = await runBeforeHook(
+        uuid === null ? hooks.beforePost : hooks.beforePut,
+        input,
+        session,
+        userId
+      )
+
+      const timestamp = Date.now()
+
+      input.createdAt = timestamp
+      input.updatedAt = timestamp
+
+      if (userId) {
+        input.createdBy = userId
+        input.updatedBy = userId
+      }
+
+      const either = tox.parse(input)
+
+      if (either.success === false) {
+        throw new SchemaValidationError(collectionName, input.id, either.error)
+      }
+
+      const stagedRecord = either.data as CommonDoc
+
+      await assertReferencesExist(stagedRecord, session)
+      await assertUnique(stagedRecord, session)
+
+      const { createdAt, createdBy, ...replacement } = stagedRecord
+      const update: UpdateFilter<Document> = { $set: replacement }
+
+      for (const key of schemaKeys) {
+        if (key !== 'createdAt' && key !== 'createdBy') {
+          // @ts-expect-error absent props must be set to undefined
+          replacement[key] = replacement[key] ?? undefined
+        }
+      }
+
+      /* Upsert has no expected version, the counter is incremented */
+      if (versionKey && versionKey !== 'updatedAt') {
+        delete replacement[versionKey as keyof typeof replacement]
+        update.$inc = { [versionKey]: 1 }
+      }
+
+      const insertOnly: Partial<CommonDoc> = {}
+
+      if (createdAt !== undefined) {
+        insertOnly.createdAt = createdAt
+      }
+
+      if (createdBy !== undefined) {
+        insertOnly.createdBy = createdBy
+      }
+
+      /* Empty operator is rejected by MongoDB prior to 5.0 */
+      if (Object.keys(insertOnly).length) {
+        update.$setOnInsert = insertOnly
+      }
+
+      let before: Record<string, unknown> | null
+
+      try {
+        before = await collection.findOneAndUpdate(
+          softDelete
+            ? { id: stagedRecord.id, deletedAt: null }
+            : { id: stagedRecord.id },
+          update,
+          { upsert: true, returnDocument: 'before', session }
+        )
+      } catch (error) {
+        if (error instanceof MongoServerError && error.code === 11000) {
+          throw (
+            (await getUniqueConstraintError(stagedRecord, error.message)) ??
+            error
+          )
+        }
+
+        throw error
+      }
+
+      const created = before === null
 
-import type {
-  CommonDoc,
-  InitRepo,
-  MutationReport,
-  RepoTox,
-  SafeRemoveResult,
-} from './types'
+      if (before === null) {
+        await __uuid.insertOne(
+          { id: stagedRecord.id, brand: collectionName },
+          { session }
+        )
+      } else {
+        sanitizeMongoRecord(before)
+      }
 
-export function initRepo<T extends Record<string, RepoTox>>(
-  mongoClient: MongoClient,
-  dbName: string,
-  models: T
-): Promise<InitRepo<T>>
+      await syncBackReferences(
+        [[before ?? undefined, stagedRecord]],
+        session,
+        userId,
+        timestamp
+      )
 
-export async function initRepo<T extends Record<string, RepoTox>>(
-  mongoClient: MongoClient,
-  dbName: string,
-  modelToxByCollectionName: T
-): Promise<Record<string, unknown>> {
-  const result = {} as any
-  const db = mongoClient.db(dbName)
+      const [record] = await get({ id: stagedRecord.id }, session)
+      const afterHook = created ? hooks.afterPost : hooks.afterPut
 
-  const __uuid = db.collection<{ id: string }>(USED_UUID_SYSTEM_COLLECTION)
+      await afterHook?.(record!, getHookContext(session, userId))
 
-  for (const collectionName in modelToxByCollectionName) {
-    const { tox, schemaKeys, relations } = getCollectionForeignKeyRelations(
-      modelToxByCollectionName,
-      collectionName
-    )
+      await recordChanges(
+        [
+          before === null
+            ? ['created', undefined, record]
+            : ['updated', before, record],
+        ],
+        session,
+        userId,
+        timestamp
+      )
 
-    const collection = db.collection(collectionName)
+      return { record, created }
+    }
 
-    const get = async (
-      filter: Record<string, unknown> = {},
-      session: ClientSession | undefined
-    ): Promise<Array<Record<string, string>>> => {
-      const res = await collection.find(filter, { session }).toArray()
+    const patch = async (
+      id: string,
+      input: Record<string, unknown>,
+      session: ClientSession | undefined,
+      userId: string | undefined
+    ) => {
+      eventBus.settle(session)
 
-      if (res === undefined) {
-        return []
-      }
+      for (let attempt = 1; attempt <= PATCH_ATTEMPTS; attempt += 1) {
+        const stored = await collection.findOne(
+          softDelete ? { id, deletedAt: null } : { id },
+          { session }
+        )
 
-      for (const x of res) {
-        sanitizeMongoRecord(x)
+        if (stored === null) {
+          throw new RecordNotExistsError(collectionName, id)
+        }
+
+        const record: Record<string, unknown> = { ...stored }
+
+        sanitizeMongoRecord(record)
+
+        const updatedRecord = await writePatch(
+          stored,
+          record,
+          input,
+          session,
+          userId
+        )
+
+        if (updatedRecord) {
+          return updatedRecord
+        }
       }
 
-      return res
+      throw new ConcurrentPatchError(collectionName, id)
     }
 
-    const post = async (
-      input: CommonDoc,
+    /**
+     * The merged record is validated as `put` input, only the changed
+     * properties are written and only while the stored document is
+     * the read one. Resolves `undefined` if it was changed meanwhile
+     **/
+    const writePatch = async (
+      stored: Document,
+      record: Record<string, unknown>,
+      input: Record<string, unknown>,
       session: ClientSession | undefined,
       userId: string | undefined
     ) => {
+      let merged: CommonDoc = { ...record } as CommonDoc
+
+      for (const key in input) {
+        if (key === 'id') {
+          continue
+        }
+
+        if (input[key] === undefined) {
+          delete merged[key as keyof CommonDoc]
+          continue
+        }
+
+        // @ts-expect-error merged record is validated below
+        merged[key] = input[key]
+      }
+
+      merged = await runBeforeHook(hooks.beforePut, merged, session, userId)
+
+      const expectedVersion =
+        versionKey && merged[versionKey as keyof CommonDoc]
       const timestamp = Date.now()
 
-      input.createdAt = timestamp
-      input.updatedAt = timestamp
+      merged.updatedAt = timestamp
 
       if (userId) {
-        input.createdBy = userId
-        input.updatedBy = userId
+        merged.updatedBy = userId
       }
 
-      const either = tox.parse(input)
+      setNextVersion(merged, expectedVersion)
+
+      const either = tox.parse(merged)
 
       if (either.success === false) {
-        throw either.error
+        throw new SchemaValidationError(collectionName, merged.id, either.error)
       }
 
-      const uuid = await __uuid.findOne({ id: input.id })
+      const versionConflictError = getVersionConflictError(
+        record,
+        expectedVersion
+      )
 
-      if (uuid !== null) {
-        throw Error(ERROR.idIsAlreadyTaken(uuid.id))
+      if (versionConflictError) {
+        throw versionConflictError
       }
 
-      const [record] = await get({ id: input.id }, session)
+      const stagedRecord = either.data as CommonDoc
 
-      if (record !== undefined) {
-        throw Error(ERROR.recordAlreadyExists(collectionName, input.id))
+      await assertReferencesExist(stagedRecord, session)
+      await assertUnique(stagedRecord, session)
+
+      const $set: Document = {}
+      const $unset: Document = {}
+
+      for (const key of new Set([
+        ...Object.keys(record),
+        ...Object.keys(stagedRecord),
+      ])) {
+        const value = stagedRecord[key as keyof CommonDoc]
+
+        if (value === undefined) {
+          $unset[key] = ''
+        } else if (isDeepStrictEqual(value, record[key]) === false) {
+          $set[key] = value
+        }
       }
 
-      const stagedRecord = either.data as CommonDoc
+      /* Unchanged record is matched against the snapshot all the same */
+      if (Object.keys($set).length === 0) {
+        $set.id = stagedRecord.id
+      }
 
-      await collection.replaceOne({ id: input.id }, stagedRecord, {
-        upsert: true,
-        session,
-      })
+      try {
+        const { matchedCount } = await collection.updateOne(
+          getSnapshotFilter(stored, schemaKeys),
+          Object.keys($unset).length ? { $set, $unset } : { $set },
+          { session }
+        )
+
+        if (matchedCount === 0) {
+          return undefined
+        }
+      } catch (error) {
+        if (error instanceof MongoServerError && error.code === 11000) {
+          throw (
+            (await getUniqueConstraintError(stagedRecord, error.message)) ??
+            error
+          )
+        }
 
-      await __uuid.insertOne({ id: input.id }, { session })
+        throw error
+      }
 
-      return (await get({ id: stagedRecord.id }, session))[0]
+      return finishUpdate(record, stagedRecord, session, userId, timestamp)
     }
 
-    const put = async (
-      input: CommonDoc,
+    const remove = async (
+      idOrIds: string | Array<string>,
       session: ClientSession | undefined,
       userId: string | undefined
     ) => {
+      const ids = Array.isArray(idOrIds) ? idOrIds : [idOrIds]
+      const records = await get({ id: { $in: ids } }, session)
+      const hookContext = getHookContext(session, userId)
       const timestamp = Date.now()
 
-      input.updatedAt = timestamp
+      for (const record of records) {
+        await hooks.beforeRemove?.(record, hookContext)
+      }
 
-      if (userId) {
-        input.updatedBy = userId
+      if (softDelete && records.length) {
+        const update: Partial<CommonDoc> = { deletedAt: timestamp }
+
+        if (userId && schemaKeys.has('updatedBy')) {
+          update.updatedBy = userId
+        }
+
+        await collection.bulkWrite(
+          records.map((record) => ({
+            updateOne: {
+              filter: { id: record.id, deletedAt: null },
+              update: {
+                $set: { ...update, ...getNextVersionUpdate(record, timestamp) },
+              },
+            },
+          })),
+          { session }
+        )
+      } else if (softDelete === false && records.length) {
+        /* Ids of the other models must stay taken */
+        const removedIds = records.map((x) => x.id as string)
+
+        await collection.deleteMany({ id: { $in: removedIds } }, { session })
+        await __uuid.deleteMany({ id: { $in: removedIds } }, { session })
       }
 
-      const either = tox.parse(input)
+      await syncBackReferences(
+        records.map((record) => [record, undefined]),
+        session,
+        userId,
+        timestamp
+      )
 
-      if (either.success === false) {
-        throw either.error
+      for (const record of records) {
+        await hooks.afterRemove?.(record, hookContext)
       }
 
-      const [record] = await get({ id: input.id }, session)
+      await recordChanges(
+        records.map((record) => ['removed', record, undefined]),
+        session,
+        userId,
+        timestamp
+      )
+
+      return undefined
+    }
+
+    const restore = async (
+      id: string,
+      session: ClientSession | undefined,
+      userId: string | undefined
+    ) => {
+      const [record] = await get(
+        { id, deletedAt: { $ne: null } },
+        { session, withDeleted: true }
+      )
 
       if (record === undefined) {
-        throw new Error(ERROR.recordNotExists(collectionName, input.id))
+        throw new RecordNotExistsError(collectionName, id)
       }
 
-      const stagedRecord = either.data as CommonDoc
+      delete record.deletedAt
 
-      for (const key of schemaKeys) {
-        // @ts-expect-error absent props must be set to undefined
-        stagedRecord[key] = stagedRecord[key] ?? undefined
+      await assertReferencesExist(record, session)
+
+      const timestamp = Date.now()
+      const update = getNextVersionUpdate(record, timestamp)
+
+      if (userId && schemaKeys.has('updatedBy')) {
+        update.updatedBy = userId
       }
 
-      await collection.replaceOne({ id: input.id }, stagedRecord, {
-        upsert: false,
+      await collection.updateOne(
+        { id },
+        Object.keys(update).length
+          ? { $unset: { deletedAt: '' }, $set: update }
+          : { $unset: { deletedAt: '' } },
+        { session }
+      )
+
+      await syncBackReferences(
+        [[undefined, record]],
         session,
-      })
+        userId,
+        timestamp
+      )
+
+      const [restoredRecord] = await get({ id }, session)
+
+      await recordChanges(
+        [['created', undefined, restoredRecord]],
+        session,
+        userId,
+        timestamp
+      )
 
-      return (await get({ id: stagedRecord.id }, session))[0]
+      return restoredRecord
     }
 
-    const remove = async (
-      idOrIds: string | Array<string>,
-      session: ClientSession | undefined
-    ) => {
-      const ids = Array.isArray(idOrIds) ? idOrIds : [idOrIds]
+    const purge = async (id: string, session: ClientSession | undefined) => {
+      const [record] = await get({ id }, { session, withDeleted: true })
+
+      if (record === undefined) {
+        throw new RecordNotExistsError(collectionName, id)
+      }
+
+      const timestamp = Date.now()
+
+      await collection.deleteOne({ id }, { session })
+      await __uuid.deleteOne({ id }, { session })
 
-      await Promise.all(
-        ids.map((id) =>
-          collection
-            .deleteOne({ id }, { session })
-            .then(() => __uuid.deleteOne({ id }, { session }))
+      if (record.deletedAt === undefined) {
+        await syncBackReferences(
+          [[record, undefined]],
+          session,
+          undefined,
+          timestamp
         )
-      )
+
+        await recordChanges(
+          [['removed', record, undefined]],
+          session,
+          undefined,
+          timestamp
+        )
+      }
 
       return undefined
     }
 
-    const safeRemove = async (
+    /**
+     * Collect records which must be removed or updated
+     * as the consequence of the record removal according
+     * to `onDelete` policy of the referencing foreign keys
+     **/
+    const stageSafeRemove = async (
       id: string,
       session: ClientSession | undefined,
-      userId: string | undefined
+      plan: SafeRemovePlan
     ) => {
-      const stagedForRemove = [] as MutationReport[]
-      const stagedForUpdate = [] as MutationReport[]
+      const isStaged = plan.removed.some(
+        ([brand, recordId]) => brand === collectionName && recordId === id
+      )
 
-      const confirmQueue = [] as Array<() => Promise<SafeRemoveResult>>
-      const updateQueue = [] as Array<() => Promise<MutationReport[]>>
+      if (isStaged) {
+        return
+      }
 
       const [sourceRecord] = await get({ id }, session)
 
       if (sourceRecord === undefined) {
-        throw Error('Missing source record')
+        throw new RecordNotExistsError(collectionName, id)
       }
 
-      for (const relation of relations) {
-        switch (relation.dependencyKind) {
-          case 'primary-to-secondary': {
-            const targetCollection = result[relation.targetCollectionName]
+      plan.removed.push([collectionName, id])
 
-            if (targetCollection === undefined) {
-              throw Error('Missing targetCollection')
-            }
+      for (const { brand, relation } of incomingRelations) {
+        if (relation.onDelete === 'noAction') {
+          continue
+        }
 
-            const records = (await targetCollection.get(
-              {
-                [relation.targetCollectionFieldKey]: (() => {
-                  switch (relation.cardinalityType) {
-                    case 'one-to-one':
-                    case 'many-to-one': {
-                      return id
-                    }
-
-                    default: {
-                      throw Error(
-                        `Not supported relation cardinality type: ${relation.cardinalityType}`
-                      )
-                    }
-                  }
-                })(),
-              },
-              session
-            )) as CommonDoc[]
+        if (
+          'targetVariant' in relation &&
+          isRecordOfVariant(sourceRecord, relation.targetVariant) === false
+        ) {
+          continue
+        }
+
+        const fieldKey = relation.sourceCollectionFieldKey
+        const isMany = relation.cardinalityType.startsWith('many')
 
-            for (const record of records) {
-              stagedForRemove.push([relation.targetCollectionName, record.id])
+        const records = await getters[brand]!(
+          { ...relation.sourceVariant, [getMongoPath(fieldKey)]: id },
+          session
+        )
 
-              const deepRemove = await targetCollection.safeRemove(record.id)
+        for (const record of records) {
+          const recordId = record.id as string
 
-              confirmQueue.push(deepRemove.confirm)
+          if (relation.onDelete === 'restrict') {
+            const isRestricted = plan.restrictedBy.some(
+              (x) => x[0] === brand && x[1] === recordId
+            )
 
-              if (deepRemove.stagedForRemove) {
-                for (const x of deepRemove.stagedForRemove) {
-                  stagedForRemove.push(x)
-                }
-              }
+            if (isRestricted === false) {
+              plan.restrictedBy.push([brand, recordId])
             }
 
-            break
+            continue
           }
 
-          case 'secondary-to-primary': {
-            const targetCollection = result[relation.targetCollectionName]!
-
-            if (targetCollection === undefined) {
-              throw Error('Missing targetCollection')
+          if (relation.onDelete === 'cascade') {
+            const pulledIds = plan.updated
+              .filter(
+                ({ report, fieldKey: key }) =>
+                  report[0] === brand &&
+                  report[1] === recordId &&
+                  key === fieldKey
+              )
+              .map(({ referenceId }) => referenceId)
+
+            const restIds = isMany
+              ? getReferenceIds(getFieldValue(record, fieldKey)).filter(
+                  (x) => x !== id && pulledIds.includes(x as string) === false
+                )
+              : []
+
+            if (restIds.length === 0) {
+              await safeRemoveStagers[brand]!(recordId, session, plan)
+              continue
             }
+          }
 
-            switch (relation.cardinalityType) {
-              case 'one-to-one': {
-                const targetId = sourceRecord[relation.sourceCollectionFieldKey]
-
-                if (targetId === undefined) {
-                  throw Error('Missing targetId')
-                }
-
-                const [targetInitial] = (await targetCollection.get({
-                  id: targetId,
-                })) as Array<Record<string, unknown> | undefined>
-
-                if (targetInitial === undefined) {
-                  break
-                }
-
-                const hasReference =
-                  targetInitial[relation.targetCollectionFieldKey] === id
-
-                if (hasReference) {
-                  const feedback = [
-                    relation.targetCollectionName,
-                    targetId,
-                  ] as MutationReport
-
-                  updateQueue.push(async () => {
-                    targetCollection.put(
-                      {
-                        ...targetInitial,
-                        [relation.targetCollectionFieldKey]: undefined,
-                      },
-                      session,
-                      userId
-                    )
-
-                    return [feedback] as const
-                  })
-
-                  stagedForUpdate.push(feedback)
-                  break
-                }
-
-                break
-              }
+          plan.updated.push({
+            report: [brand, recordId],
+            fieldKey,
+            referenceId: id,
+          })
+        }
+      }
+    }
 
-              case 'one-to-many': {
-                const targetId = sourceRecord[relation.sourceCollectionFieldKey]
-                const [targetInitial] = (await targetCollection.get({
-                  id: targetId,
-                })) as Array<Record<string, any>>
+    safeRemoveStagers[collectionName] = stageSafeRemove
+
+    const getSafeRemovePlan = async (
+      id: string,
+      session: ClientSession | undefined
+    ) => {
+      const plan: SafeRemovePlan = {
+        removed: [],
+        updated: [],
+        restrictedBy: [],
+      }
 
-                if (targetInitial === undefined) {
-                  break
-                }
+      await stageSafeRemove(id, session, plan)
 
-                const hasReference =
-                  targetInitial[relation.targetCollectionFieldKey]?.includes(id)
+      if (plan.restrictedBy.length) {
+        throw new RestrictedRemoveError(collectionName, id, plan.restrictedBy)
+      }
 
-                if (hasReference) {
-                  const feedback = [
-                    relation.targetCollectionName,
-                    targetId,
-                  ] as MutationReport
+      const removedUniqueIds = new Set(plan.removed.map(getReportUniqueId))
 
-                  updateQueue.push(async () => {
-                    const updatedTarget = {
-                      ...targetInitial,
-                      [relation.targetCollectionFieldKey]: targetInitial[
-                        relation.targetCollectionFieldKey
-                      ].filter((referenceId: string) => referenceId !== id),
-                    }
+      plan.updated = plan.updated.filter(
+        ({ report }) =>
+          removedUniqueIds.has(getReportUniqueId(report)) === false
+      )
 
-                    targetCollection.put(updatedTarget, session, userId)
+      return plan
+    }
 
-                    return [feedback] as const
-                  })
+    const safeRemove = async (
+      id: string,
+      session: ClientSession | undefined,
+      userId: string | undefined
+    ) => {
+      const plan = await getSafeRemovePlan(id, session)
+      const planSignature = getSafeRemovePlanSignature(plan)
 
-                  stagedForUpdate.push(feedback)
-                }
+      const stagedForRemove = plan.removed.filter(
+        ([brand, recordId]) => brand !== collectionName || recordId !== id
+      )
 
-                break
-              }
-            }
+      const stagedForUpdate = [] as MutationReport[]
+      const updatedUniqueIds = new Set<string>()
 
-            break
-          }
+      for (const { report } of plan.updated) {
+        const uniqueId = getReportUniqueId(report)
 
-          default: {
-            console.info(id, relation)
-            throw Error(
-              `Not supported relation dependencyKind: ${relation.dependencyKind}`
-            )
-          }
+        if (updatedUniqueIds.has(uniqueId)) {
+          continue
         }
+
+        updatedUniqueIds.add(uniqueId)
+        stagedForUpdate.push(report)
       }
 
-      return {
-        stagedForRemove: stagedForRemove.length ? stagedForRemove : undefined,
-        stagedForUpdate: stagedForUpdate.length ? stagedForUpdate : undefined,
+      const executePlan = async (transactionSession: ClientSession) => {
+        const actualPlan = await getSafeRemovePlan(id, transactionSession)
 
-        confirm: async () => {
-          const result: SafeRemoveResult = {
-            removed: [],
-            updated: [],
-          }
+        if (getSafeRemovePlanSignature(actualPlan) !== planSignature) {
+          throw new StaleSafeRemovePlanError(collectionName, id)
+        }
 
-          for (const confirm of confirmQueue) {
-            const confirmed = await confirm()
+        for (const { report, fieldKey, referenceId } of plan.updated) {
+          const [brand, recordId] = report
+          const targetModel = result[brand]
 
-            result.removed = result.removed.concat(confirmed.removed)
+          const [record] = await getters[brand]!(
+            { id: recordId },
+            transactionSession
+          )
 
-            if (confirmed.updated) {
-              result.updated = (result.updated || []).concat(confirmed.updated)
-            }
+          if (record === undefined) {
+            throw new StaleSafeRemovePlanError(collectionName, id)
           }
 
-          for (const update of updateQueue) {
-            const updates = await update()
-            result.updated = (result.updated || []).concat(updates)
-          }
+          await targetModel.put(
+            detachReference(record, fieldKey, referenceId),
+            transactionSession,
+            userId
+          )
+        }
 
-          await remove(id, session)
+        for (const [brand, recordId] of plan.removed) {
+          await result[brand].remove(recordId, transactionSession, userId)
+        }
 
-          result.removed.push([collectionName, id])
+        const safeRemoveResult: SafeRemoveResult = {
+          removed: plan.removed,
+        }
 
-          const deduplicatedResult: SafeRemoveResult = {
-            removed: [],
-            updated: [],
-          }
+        if (stagedForUpdate.length) {
+          safeRemoveResult.updated = stagedForUpdate
+        }
 
-          const getUniqueId = (x: MutationReport) => x[0] + x[1]
+        return safeRemoveResult
+      }
 
-          const removedUniqueIds = new Set<string>()
+      return {
+        stagedForRemove: stagedForRemove.length ? stagedForRemove : undefined,
+        stagedForUpdate: stagedForUpdate.length ? stagedForUpdate : undefined,
 
-          for (const change of result.removed) {
-            const uniqueId = getUniqueId(change)
+        /**
+         * Run the staged plan in a single transaction, the plan
+         * is computed again and must not differ from the staged one.
+         * Audit trail entries of the writes share the correlation id
+         **/
+        confirm: () =>
+          withTransaction(
+            mongoClient,
+            session,
+            async (transactionSession) => {
+              correlationIdBySession.set(transactionSession, randomUUID())
+
+              try {
+                return await executePlan(transactionSession)
+              } finally {
+                correlationIdBySession.delete(transactionSession)
+              }
+            },
+            eventBus
+          ),
+      }
+    }
 
-            if (removedUniqueIds.has(uniqueId)) {
-              continue
-            }
+    const history = async (id: string, session: ClientSession | undefined) => {
+      if (audit === false) {
+        throw new AuditIsNotEnabledError(collectionName)
+      }
 
-            removedUniqueIds.add(uniqueId)
-            deduplicatedResult.removed.push(change)
-          }
+      const entries = await __audit
+        .find(
+          { brand: collectionName, id },
+          { session, sort: { timestamp: 1, _id: 1 } }
+        )
+        .toArray()
 
-          const updatedUniqueIds = new Set<string>()
+      for (const entry of entries) {
+        sanitizeMongoRecord(entry)
 
-          if (result.updated) {
-            for (const change of result.updated) {
-              const [brand, recordId] = change
-              const uniqueId = brand + recordId
+        if (entry.snapshot) {
+          sanitizeMongoRecord(entry.snapshot)
+        }
+      }
 
-              if (
-                updatedUniqueIds.has(uniqueId) ||
-                removedUniqueIds.has(uniqueId)
-              ) {
-                continue
-              }
+      return entries
+    }
 
-              updatedUniqueIds.add(uniqueId)
-              deduplicatedResult.updated?.push(change)
-            }
-          }
+    const asOf = async (
+      id: string,
+      timestamp: number,
+      session: ClientSession | undefined
+    ) => {
+      if (audit === false) {
+        throw new AuditIsNotEnabledError(collectionName)
+      }
 
-          if (deduplicatedResult.updated?.length === 0) {
-            delete deduplicatedResult.updated
-          }
+      const [entry] = await __audit
+        .find(
+          { brand: collectionName, id, timestamp: { $lte: timestamp } },
+          { session, sort: { timestamp: -1, _id: -1 }, limit: 1 }
+        )
+        .toArray()
 
-          return deduplicatedResult
-        },
+      if (entry?.snapshot === undefined) {
+        return undefined
       }
+
+      sanitizeMongoRecord(entry.snapshot)
+
+      return entry.snapshot
     }
 
     /**
@@ -411,19 +2226,102 @@ export async function initRepo<T extends Record<string, RepoTox>>(
     })
 
     result[collectionName] = {
-      get,
+      asOf,
+      get: getRecords,
+      history,
       mongo,
+      paginate,
+      patch,
       post,
+      postMany,
+      purge,
       put,
+      putMany,
       relations,
       remove,
+      restore,
       safeRemove,
+      softDelete,
+      subscribe: (listener: RepoEventListener) =>
+        eventBus.subscribe(collectionName, listener),
       tox,
+      upsert,
     }
   }
 
   result._wrap = (session?: ClientSession, userId?: string) =>
     getModifiedRepo(result, session, userId)
 
+  result._watch = (watchOptions?: WatchOptions) =>
+    eventBus.watch(db, softDeleteByBrand, watchOptions)
+
+  result._withTransaction = (
+    fn: (session: ClientSession) => Promise<unknown>,
+    session?: ClientSession
+  ) => withTransaction(mongoClient, session, fn, eventBus)
+
+  result._syncIndexes = async ({
+    apply = false,
+    dropExtraneous = false,
+  } = {}) => {
+    const report: SyncIndexesReport = {}
+
+    for (const [collection, indexes] of expectedIndexes) {
+      const drift = getIndexesDrift(
+        indexes,
+        await getExistingIndexes(collection)
+      )
+
+      report[collection.collectionName] = drift
+
+      if (apply === false) {
+        continue
+      }
+
+      /* Extraneous index could be made by hand, dropped only on demand */
+      const dropped = dropExtraneous
+        ? [...drift.changed, ...drift.extraneous]
+        : drift.changed
+
+      for (const name of dropped) {
+        await collection.dropIndex(name)
+      }
+
+      const outdated = [...drift.missing, ...drift.changed]
+      const created = indexes.filter((x) => outdated.includes(x.name))
+
+      if (created.length) {
+        await collection.createIndexes(created)
+      }
+    }
+
+    return report
+  }
+
+  if (Object.values(options.models ?? {}).some((x) => x?.audit)) {
+    expectedIndexes.push([
+      db.collection(AUDIT_SYSTEM_COLLECTION),
+      [
+        {
+          key: { brand: 1, id: 1, timestamp: 1 },
+          name: 'brand_1_id_1_timestamp_1',
+        },
+      ],
+    ])
+  }
+
+  for (const [collection, indexes] of expectedIndexes) {
+    const { missing } = getIndexesDrift(
+      indexes,
+      await getExistingIndexes(collection)
+    )
+
+    const created = indexes.filter((x) => missing.includes(x.name))
+
+    if (created.length) {
+      await collection.createIndexes(created)
+    }
+  }
+
   return result
 }
@@ -0,0 +1,277 @@
+import { createEventBus, getChangeStreamEvent } from '../events'
+
+import type { ChangeStreamDocument, ClientSession, Db } from 'mongodb'
+import type { RepoEvent } from '../types'
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+function getDriverSession() {
+  let onEnded = () => {}
+
+  const session = {
+    transaction: { state: 'NO_TRANSACTION' },
+    inTransaction: () =>
+      session.transaction.state === 'TRANSACTION_IN_PROGRESS',
+    on: (_: 'ended', listener: () => void) => {
+      onEnded = listener
+    },
+    startTransaction: () => {
+      session.transaction = { state: 'TRANSACTION_IN_PROGRESS' }
+    },
+    finish: (state: string) => {
+      session.transaction.state = state
+    },
+    end: () => onEnded(),
+  }
+
+  return session as typeof session & ClientSession
+}
+
+function getChangeStream() {
+  let closed = false
+  let interrupt = () => {}
+
+  return {
+    get closed() {
+      return closed
+    },
+    tryNext: async () => null,
+    next: () =>
+      new Promise((_, reject) => {
+        interrupt = () => reject(new Error('closed'))
+      }),
+    close: async () => {
+      closed = true
+      interrupt()
+    },
+  }
+}
+
+describe('Event bus', () => {
+  const event: RepoEvent = { type: 'created', brand: 'user', id: 'U0' }
+
+  it('event without transaction must be delivered immediately', async () => {
+    const bus = createEventBus()
+    const delivered: RepoEvent[] = []
+
+    const unsubscribe = bus.subscribe('user', (x) => void delivered.push(x))
+
+    bus.emit(event, undefined)
+    bus.emit({ ...event, brand: 'post' }, undefined)
+    await flush()
+
+    expect(delivered).toStrictEqual([event])
+
+    unsubscribe()
+    bus.emit(event, undefined)
+    await flush()
+
+    expect(delivered).toStrictEqual([event])
+  })
+
+  it('held transaction events must be delivered after the commit', async () => {
+    const bus = createEventBus()
+    const delivered: RepoEvent[] = []
+    const session = {} as ClientSession
+
+    bus.subscribe('user', (x) => void delivered.push(x))
+
+    bus.hold(session)
+    bus.emit(event, session)
+    bus.emit({ ...event, type: 'updated' }, session)
+    await flush()
+
+    expect(delivered).toStrictEqual([])
+
+    bus.release(session, true)
+    await flush()
+
+    expect(delivered.map((x) => x.type)).toStrictEqual(['created', 'updated'])
+  })
+
+  it('held transaction events must be dropped on abort and retry', async () => {
+    const bus = createEventBus()
+    const delivered: RepoEvent[] = []
+    const session = {} as ClientSession
+
+    bus.subscribe('user', (x) => void delivered.push(x))
+
+    bus.hold(session)
+    bus.emit(event, session)
+    bus.hold(session)
+    bus.emit({ ...event, type: 'updated' }, session)
+    bus.release(session, true)
+
+    bus.hold(session)
+    bus.emit({ ...event, type: 'removed' }, session)
+    bus.release(session, false)
+    await flush()
+
+    expect(delivered.map((x) => x.type)).toStrictEqual(['updated'])
+  })
+
+  it('driver transaction events must be delivered after the commit', async () => {
+    const bus = createEventBus()
+    const delivered: RepoEvent[] = []
+    const session = getDriverSession()
+
+    bus.subscribe('user', (x) => void delivered.push(x))
+
+    session.startTransaction()
+    bus.emit(event, session)
+    bus.emit({ ...event, type: 'updated' }, session)
+    await flush()
+
+    expect(delivered).toStrictEqual([])
+
+    session.finish('TRANSACTION_COMMITTED')
+    session.end()
+    await flush()
+
+    expect(delivered.map((x) => x.type)).toStrictEqual(['created', 'updated'])
+  })
+
+  it('driver transaction events must be dropped on abort', async () => {
+    const bus = createEventBus()
+    const delivered: RepoEvent[] = []
+    const session = getDriverSession()
+
+    bus.subscribe('user', (x) => void delivered.push(x))
+
+    session.startTransaction()
+    bus.emit(event, session)
+    session.finish('TRANSACTION_ABORTED')
+
+    // the next transaction settles the previous one
+    session.startTransaction()
+    bus.emit({ ...event, type: 'updated' }, session)
+    session.finish('TRANSACTION_COMMITTED')
+    bus.settle(session)
+    await flush()
+
+    expect(delivered.map((x) => x.type)).toStrictEqual(['updated'])
+  })
+
+  it('watched brands only must not emit local events', async () => {
+    const bus = createEventBus()
+    const delivered: RepoEvent[] = []
+    const db = { watch: getChangeStream } as unknown as Db
+
+    bus.subscribe('user', (x) => void delivered.push(x))
+    bus.subscribe('post', (x) => void delivered.push(x))
+
+    const watcher = await bus.watch(
+      db,
+      { user: false, post: false },
+      { brands: ['post'] }
+    )
+
+    bus.emit(event, undefined)
+    bus.emit({ ...event, brand: 'post' }, undefined)
+    await watcher.close()
+    bus.emit({ ...event, brand: 'post' }, undefined)
+    await flush()
+
+    expect(delivered.map((x) => x.brand)).toStrictEqual(['user', 'post'])
+  })
+
+  it('listener error must be reported and not thrown', async () => {
+    const errors: unknown[] = []
+    const bus = createEventBus((error) => errors.push(error))
+
+    bus.subscribe('user', () => {
+      throw new Error('listener')
+    })
+
+    bus.emit(event, undefined)
+    await flush()
+
+    expect(errors).toStrictEqual([new Error('listener')])
+  })
+})
+
+describe('Change stream event', () => {
+  const ns = { db: 'db', coll: 'user' }
+  const documentKey = { _id: 'x' }
+
+  it('insert, replace and delete', () => {
+    const insert = {
+      operationType: 'insert',
+      ns,
+      documentKey,
+      fullDocument: { _id: 'x', id: 'U0', updatedBy: 'admin' },
+    } as unknown as ChangeStreamDocument
+
+    expect(getChangeStreamEvent(insert, { user: false })).toStrictEqual({
+      type: 'created',
+      brand: 'user',
+      id: 'U0',
+      after: { id: 'U0', updatedBy: 'admin' },
+      userId: 'admin',
+    })
+
+    const replace = {
+      operationType: 'replace',
+      ns,
+      documentKey,
+      fullDocument: { _id: 'x', id: 'U0', name: 'b' },
+      fullDocumentBeforeChange: { _id: 'x', id: 'U0', name: 'a' },
+    } as unknown as ChangeStreamDocument
+
+    expect(getChangeStreamEvent(replace, { user: false })).toStrictEqual({
+      type: 'updated',
+      brand: 'user',
+      id: 'U0',
+      before: { id: 'U0', name: 'a' },
+      after: { id: 'U0', name: 'b' },
+    })
+
+    const deleteWithoutPreImage = {
+      operationType: 'delete',
+      ns,
+      documentKey,
+    } as unknown as ChangeStreamDocument
+
+    expect(getChangeStreamEvent(deleteWithoutPreImage, {})).toBe(undefined)
+  })
+
+  it('soft delete and restore', () => {
+    const getUpdate = (
+      fullDocument: Record<string, unknown>,
+      updateDescription: Record<string, unknown>
+    ) =>
+      ({
+        operationType: 'update',
+        ns,
+        documentKey,
+        fullDocument,
+        updateDescription,
+      }) as unknown as ChangeStreamDocument
+
+    const removed = getUpdate(
+      { id: 'U0', deletedAt: 1 },
+      { updatedFields: { deletedAt: 1 }, removedFields: [] }
+    )
+
+    expect(getChangeStreamEvent(removed, { user: true })).toStrictEqual({
+      type: 'removed',
+      brand: 'user',
+      id: 'U0',
+      before: { id: 'U0', deletedAt: 1 },
+    })
+
+    const restored = getUpdate(
+      { id: 'U0' },
+      { updatedFields: {}, removedFields: ['deletedAt'] }
+    )
+
+    expect(getChangeStreamEvent(restored, { user: true })?.type).toBe('created')
+
+    const updatedRemoved = getUpdate(
+      { id: 'U0', deletedAt: 1 },
+      { updatedFields: { postIds: [] }, removedFields: [] }
+    )
+
+    expect(getChangeStreamEvent(updatedRemoved, { user: true })).toBe(undefined)
+  })
+})
@@ -0,0 +1,355 @@
+import { spawnSync } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import * as x from 'schematox'
+
+import { loadConfig, runCli } from '../cli'
+import { ERROR_CODE, FOREIGN_KEY_BRAND_TYPE } from '../constants'
+import { InvalidMigrationError } from '../errors'
+import { loadMigrations } from '../migrations'
+import {
+  DB_NAME,
+  connectDB,
+  dbConnect,
+  dropDB,
+  initMigratorHelper,
+  initRepoHelper,
+} from './test-helpers'
+
+import type { Infer } from 'schematox'
+
+function getMigrationsDir(files: Record<string, string>) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'repotox-migrations-'))
+
+  for (const file in files) {
+    fs.writeFileSync(path.join(dir, file), files[file]!)
+  }
+
+  return dir
+}
+
+describe('Migration files', () => {
+  const dirs: string[] = []
+
+  afterAll(() => {
+    dirs.forEach((dir) => fs.rmSync(dir, { recursive: true }))
+  })
+
+  it('migrations must be ordered by the file name', () => {
+    const dir = getMigrationsDir({
+      '002-add-email.js': 'exports.up = async () => {}',
+      '001-init.js':
+        'exports.up = async () => {}; exports.down = async () => {}',
+      'types.d.ts': 'export {}',
+      'README.md': '',
+    })
+
+    dirs.push(dir)
+
+    const migrations = loadMigrations(dir)
+
+    expect(migrations.map((x) => x.id)).toStrictEqual([
+      '001-init',
+      '002-add-email',
+    ])
+
+    expect(typeof migrations[0]?.down).toBe('function')
+    expect(migrations[1]?.down).toBe(undefined)
+  })
+
+  it('migration file without "up" function must be rejected', () => {
+    const dir = getMigrationsDir({ '001-init.js': 'exports.down = 1' })
+
+    dirs.push(dir)
+
+    expect(() => loadMigrations(dir)).toThrow(
+      new InvalidMigrationError('001-init')
+    )
+  })
+})
+
+describe('CLI config', () => {
+  const dirs: string[] = []
+
+  afterAll(() => {
+    dirs.forEach((dir) => fs.rmSync(dir, { recursive: true }))
+  })
+
+  it('default export of TypeScript config must be loaded', () => {
+    const dir = getMigrationsDir({
+      'repotox.config.ts':
+        "const migrationsDir: string = 'migrations'\n" +
+        'export default { migrationsDir }',
+    })
+
+    dirs.push(dir)
+
+    const config = loadConfig(path.join(dir, 'repotox.config'))
+
+    expect(config.migrationsDir).toBe('migrations')
+  })
+
+  it('CommonJS config must be loaded by the path', () => {
+    const dir = getMigrationsDir({
+      'custom.config.js': "module.exports = { migrationsDir: 'custom' }",
+    })
+
+    dirs.push(dir)
+
+    const config = loadConfig(path.join(dir, 'custom.config.js'))
+
+    expect(config.migrationsDir).toBe('custom')
+  })
+
+  it('installed bin must compile the library and load the config', () => {
+    const root = path.resolve(__dirname, '../..')
+    const dir = getMigrationsDir({
+      'repotox.config.ts':
+        "export default { migrationsDir: 'migrations', connect: async () => {\n" +
+        "  throw new Error('config loaded')\n" +
+        '} }',
+      'tsconfig.json': JSON.stringify({
+        compilerOptions: { module: 'esnext', moduleResolution: 'bundler' },
+      }),
+    })
+
+    dirs.push(dir)
+
+    const installed = path.join(dir, 'node_modules', 'repotox')
+
+    fs.cpSync(path.join(root, 'bin'), path.join(installed, 'bin'), {
+      recursive: true,
+    })
+    fs.cpSync(path.join(root, 'lib'), path.join(installed, 'lib'), {
+      recursive: true,
+      filter: (x) => x.includes(`${path.sep}tests`) === false,
+    })
+
+    const { status, stderr } = spawnSync(
+      process.execPath,
+      [path.join(installed, 'bin', 'repotox.js'), 'migrate', 'status'],
+      {
+        cwd: dir,
+        encoding: 'utf8',
+        env: { ...process.env, NODE_PATH: path.join(root, 'node_modules') },
+      }
+    )
+
+    expect(stderr.trim()).toBe('config loaded')
+    expect(status).toBe(1)
+  })
+})
+
+describe('Migrator', () => {
+  beforeEach(connectDB)
+  afterEach(dropDB)
+
+  const userId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'user')
+
+  const userV1 = x.object({ id: userId, name: x.string() })
+  const userV2 = x.object({ id: userId, name: x.string(), email: x.string() })
+
+  type User = Infer<typeof userV2>
+
+  const U0 = 'U0' as User['id']
+  const U1 = 'U1' as User['id']
+
+  it('up, down and status must track the applied migrations', async () => {
+    const repo = await initRepoHelper({ user: userV2 })
+    const calls: string[] = []
+
+    const migrator = initMigratorHelper(repo, [
+      {
+        id: '001',
+        up: async () => void calls.push('up 001'),
+        down: async () => void calls.push('down 001'),
+      },
+      {
+        id: '002',
+        up: async () => void calls.push('up 002'),
+        down: async () => void calls.push('down 002'),
+      },
+      {
+        id: '003',
+        up: async () => void calls.push('up 003'),
+        down: async () => void calls.push('down 003'),
+      },
+    ])
+
+    expect(await migrator.up({ to: '002', dryRun: true })).toStrictEqual([
+      '001',
+      '002',
+    ])
+    expect(await migrator.up({ to: '002' })).toStrictEqual(['001', '002'])
+    expect(await migrator.up()).toStrictEqual(['003'])
+    expect(await migrator.up()).toStrictEqual([])
+
+    const status = await migrator.status()
+
+    expect(status.map((x) => x.id)).toStrictEqual(['001', '002', '003'])
+    expect(status.every((x) => typeof x.appliedAt === 'number')).toBe(true)
+
+    expect(await migrator.down()).toStrictEqual(['003'])
+    expect(await migrator.down({ to: '001' })).toStrictEqual(['002', '001'])
+    expect(await migrator.status()).toStrictEqual([
+      { id: '001' },
+      { id: '002' },
+      { id: '003' },
+    ])
+
+    expect(calls).toStrictEqual([
+      'up 001',
+      'up 002',
+      'up 003',
+      'down 003',
+      'down 002',
+      'down 001',
+    ])
+  })
+
+  it('unknown and irreversible migrations must be rejected', async () => {
+    const repo = await initRepoHelper({ user: userV2 })
+    const calls: string[] = []
+
+    const migrator = initMigratorHelper(repo, [
+      { id: '001', up: async () => void calls.push('up 001') },
+      {
+        id: '002',
+        up: async () => void calls.push('up 002'),
+        down: async () => void calls.push('down 002'),
+      },
+    ])
+
+    await expect(migrator.up({ to: '003' })).rejects.toMatchObject({
+      code: ERROR_CODE.unknownMigration,
+      migrationId: '003',
+    })
+
+    await migrator.up()
+
+    await expect(migrator.down({ to: '001' })).rejects.toMatchObject({
+      code: ERROR_CODE.irreversibleMigration,
+      migrationId: '001',
+    })
+
+    expect(calls).toStrictEqual(['up 001', 'up 002'])
+    expect(await migrator.down()).toStrictEqual(['002'])
+  })
+
+  it('failed migration must not be recorded as applied', async () => {
+    const repo = await initRepoHelper({ user: userV2 })
+
+    const migrator = initMigratorHelper(repo, [
+      { id: '001', up: async () => {} },
+      {
+        id: '002',
+        up: async () => {
+          throw new Error('failed')
+        },
+      },
+    ])
+
+    await expect(migrator.up()).rejects.toThrow('failed')
+    expect(await migrator.up({ dryRun: true })).toStrictEqual(['002'])
+  })
+
+  it('migration must make old documents conforming', async () => {
+    const repoV1 = await initRepoHelper({ user: userV1 })
+
+    await repoV1.user.post({ id: U0, name: 'a' })
+    await repoV1.user.post({ id: U1, name: 'b' })
+
+    const repo = await initRepoHelper({ user: userV2 })
+
+    const migrator = initMigratorHelper(repo, [
+      {
+        id: '001-add-email',
+        up: async (repo) => {
+          await repo.user
+            .mongo()
+            .collection.updateMany({}, { $set: { email: 'none' } })
+        },
+      },
+    ])
+
+    const records = await migrator.findNonConformingRecords()
+
+    expect(records.map(({ brand, id }) => ({ brand, id }))).toStrictEqual([
+      { brand: 'user', id: U0 },
+      { brand: 'user', id: U1 },
+    ])
+
+    await expect(repo.user.patch(U0, { name: 'c' })).rejects.toMatchObject({
+      code: ERROR_CODE.doesNotSatisfySchema,
+    })
+
+    await migrator.up()
+    await repo.user.patch(U0, { name: 'c' })
+
+    expect(await migrator.findNonConformingRecords()).toStrictEqual([])
+    expect(await repo.user.get({ id: U0 })).toStrictEqual([
+      { id: U0, name: 'c', email: 'none' },
+    ])
+  })
+
+  it('CLI must apply, revert and report migrations', async () => {
+    const repo = await initRepoHelper({ user: userV2 })
+    const dir = getMigrationsDir({
+      '001-init.js': [
+        'exports.up = async (repo) => {',
+        "  await repo.user.post({ id: 'U0', name: 'a', email: 'a@x.io' })",
+        '}',
+        'exports.down = async (repo) => {',
+        "  await repo.user.remove('U0')",
+        '}',
+      ].join('\n'),
+    })
+
+    const run = async (args: string[]) => {
+      const output: string[] = []
+      const config = {
+        connect: async () => ({
+          mongoClient: await dbConnect(),
+          dbName: DB_NAME,
+          repo,
+        }),
+        migrationsDir: dir,
+      }
+
+      const code = await runCli(args, config, (x) => void output.push(x))
+
+      return { code, output }
+    }
+
+    try {
+      expect((await run(['migrate'])).code).toBe(1)
+
+      expect(await run(['migrate', 'up', '--dry-run'])).toStrictEqual({
+        code: 0,
+        output: ['pending 001-init', '0 non-conforming record(s)'],
+      })
+
+      expect(await run(['migrate', 'up'])).toStrictEqual({
+        code: 0,
+        output: ['applied 001-init', '1 migration(s) applied'],
+      })
+
+      expect(await repo.user.get({ id: U0 })).toHaveLength(1)
+
+      const { output } = await run(['migrate', 'status'])
+
+      expect(output).toHaveLength(1)
+      expect(output[0]).toMatch(/^\d{4}-.+ 001-init$/)
+
+      expect(await run(['migrate', 'down'])).toStrictEqual({
+        code: 0,
+        output: ['reverted 001-init', '1 migration(s) reverted'],
+      })
+
+      expect(await repo.user.get({ id: U0 })).toHaveLength(0)
+    } finally {
+      fs.rmSync(dir, { recursive: true })
+    }
+  })
+})
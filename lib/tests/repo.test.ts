@@ -1,5 +1,23 @@
 import * as x from 'schematox'
-import { ERROR, IGNORE_RELATION, FOREIGN_KEY_BRAND_TYPE } from '../constants'
+import {
+  ERROR,
+  ERROR_CODE,
+  IGNORE_RELATION,
+  FOREIGN_KEY_BRAND_TYPE,
+} from '../constants'
+import {
+  AuditIsNotEnabledError,
+  IdIsAlreadyTakenError,
+  InvalidCursorError,
+  InvalidPageSizeError,
+  InvalidPopulateKeyError,
+  RestrictedRemoveError,
+  SchemaValidationError,
+  StaleSafeRemovePlanError,
+  UniqueConstraintError,
+  VersionConflictError,
+  WriteFailedError,
+} from '../errors'
 import { initRepoHelper, connectDB, dropDB } from './test-helpers'
 
 import type { Infer } from 'schematox'
@@ -46,6 +64,199 @@ describe('Repository initialization process', () => {
   })
 })
 
+describe('Indexes', () => {
+  beforeEach(connectDB)
+  afterEach(dropDB)
+
+  const userId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'user')
+  const user = x.object({ id: userId, name: x.string() })
+  const post = x.object({
+    id: x.string(),
+    title: x.string(),
+    userId: userId.description(IGNORE_RELATION),
+  })
+
+  it('unique id, foreign key and user-defined indexes are created on initialization', async () => {
+    const repo = await initRepoHelper(
+      { user, post },
+      { models: { post: { indexes: [{ key: { title: 1 }, unique: true }] } } }
+    )
+
+    const indexes = await repo.post.mongo().collection.listIndexes().toArray()
+
+    expect(indexes.map((x) => [x.name, x.unique])).toStrictEqual([
+      ['_id_', undefined],
+      ['id_1', true],
+      ['userId_1', undefined],
+      ['title_1', true],
+    ])
+
+    expect(await repo._syncIndexes()).toStrictEqual({
+      __uuid: { missing: [], changed: [], extraneous: [] },
+      user: { missing: [], changed: [], extraneous: [] },
+      post: { missing: [], changed: [], extraneous: [] },
+    })
+  })
+
+  it('drift is reported and applied by "_syncIndexes"', async () => {
+    await initRepoHelper(
+      { user, post },
+      { models: { post: { indexes: [{ key: { title: 1 } }] } } }
+    )
+
+    const repo = await initRepoHelper(
+      { user, post },
+      { models: { post: { indexes: [{ key: { title: 1 }, unique: true }] } } }
+    )
+
+    await repo.user.mongo().collection.createIndex({ name: 1 })
+
+    const expected = {
+      __uuid: { missing: [], changed: [], extraneous: [] },
+      user: { missing: [], changed: [], extraneous: ['name_1'] },
+      post: { missing: [], changed: ['title_1'], extraneous: [] },
+    }
+
+    expect(await repo._syncIndexes()).toStrictEqual(expected)
+    expect(await repo._syncIndexes({ apply: true })).toStrictEqual(expected)
+
+    expect(await repo._syncIndexes()).toStrictEqual({
+      __uuid: { missing: [], changed: [], extraneous: [] },
+      user: { missing: [], changed: [], extraneous: ['name_1'] },
+      post: { missing: [], changed: [], extraneous: [] },
+    })
+
+    await repo._syncIndexes({ apply: true, dropExtraneous: true })
+
+    expect(await repo._syncIndexes()).toStrictEqual({
+      __uuid: { missing: [], changed: [], extraneous: [] },
+      user: { missing: [], changed: [], extraneous: [] },
+      post: { missing: [], changed: [], extraneous: [] },
+    })
+  })
+
+  it('index made by hand must survive "_syncIndexes" apply', async () => {
+    const repo = await initRepoHelper({ user, post })
+    const { collection } = repo.user.mongo()
+
+    await collection.createIndex({ name: 1 }, { unique: true })
+    await repo._syncIndexes({ apply: true })
+
+    const indexes = await collection.listIndexes().toArray()
+
+    expect(indexes.map((x) => [x.name, x.unique])).toStrictEqual([
+      ['_id_', undefined],
+      ['id_1', true],
+      ['name_1', true],
+    ])
+  })
+})
+
+describe('Unique constraints', () => {
+  beforeEach(connectDB)
+  afterEach(dropDB)
+
+  it('duplicate must be rejected by "post" and "put"', async () => {
+    const user = x.object({
+      id: x.string(),
+      email: x.string(),
+      nickname: x.string().optional(),
+    })
+
+    const repo = await initRepoHelper(
+      { user },
+      { models: { user: { unique: [{ fields: ['email'] }] } } }
+    )
+
+    await repo.user.post({ id: 'U0', email: 'a@x.io' })
+    await repo.user.post({ id: 'U1', email: 'b@x.io' })
+
+    const postError = await repo.user
+      .post({ id: 'U2', email: 'a@x.io' })
+      .catch((e) => e)
+
+    expect(postError).toBeInstanceOf(UniqueConstraintError)
+    expect(postError).toMatchObject({
+      code: ERROR_CODE.uniqueConstraintViolation,
+      brand: 'user',
+      id: 'U2',
+      fields: ['email'],
+      conflictId: 'U0',
+    })
+
+    await expect(
+      repo.user.put({ id: 'U1', email: 'a@x.io' })
+    ).rejects.toBeInstanceOf(UniqueConstraintError)
+
+    await expect(
+      repo.user.put({ id: 'U0', email: 'a@x.io', nickname: 'a' })
+    ).resolves.toMatchObject({ nickname: 'a' })
+
+    expect((await repo.user.get()).map((x) => x.email)).toStrictEqual([
+      'a@x.io',
+      'b@x.io',
+    ])
+  })
+
+  it('compound unique key with optional field', async () => {
+    const member = x.object({
+      id: x.string(),
+      orgId: x.string(),
+      email: x.string().optional(),
+    })
+
+    const repo = await initRepoHelper(
+      { member },
+      { models: { member: { unique: [{ fields: ['orgId', 'email'] }] } } }
+    )
+
+    await repo.member.post({ id: 'M0', orgId: 'O0', email: 'a@x.io' })
+    await repo.member.post({ id: 'M1', orgId: 'O1', email: 'a@x.io' })
+
+    // records without all the fields are not constrained
+    await repo.member.post({ id: 'M2', orgId: 'O0' })
+    await repo.member.post({ id: 'M3', orgId: 'O0' })
+
+    await expect(
+      repo.member.post({ id: 'M4', orgId: 'O0', email: 'a@x.io' })
+    ).rejects.toMatchObject({ fields: ['orgId', 'email'], conflictId: 'M0' })
+  })
+
+  it('uniqueness scoped to discriminated union variant', async () => {
+    const item = x.union([
+      x.object({
+        id: x.string(),
+        kind: x.literal('product'),
+        code: x.string(),
+      }),
+      x.object({
+        id: x.string(),
+        kind: x.literal('service'),
+        code: x.string(),
+      }),
+    ])
+
+    const repo = await initRepoHelper(
+      { item },
+      {
+        models: {
+          item: {
+            unique: [{ fields: ['code'], variant: { kind: 'product' } }],
+          },
+        },
+      }
+    )
+
+    await repo.item.post({ id: 'I0', kind: 'product', code: 'X' })
+    await repo.item.post({ id: 'I1', kind: 'service', code: 'X' })
+    await repo.item.post({ id: 'I2', kind: 'service', code: 'X' })
+
+    await expect(
+      repo.item.post({ id: 'I3', kind: 'product', code: 'X' })
+    ).rejects.toMatchObject({ conflictId: 'I0' })
+  })
+})
+
 describe('Detection of missing user-defined relations', () => {
   beforeEach(connectDB)
   afterEach(dropDB)
@@ -266,6 +477,22 @@ describe('Repo model "post" method', () => {
     expect(() => repo.modelA.post({ id: 0 })).rejects.toBeTruthy()
   })
 
+  it('Should throw typed error with schematox issues if input does not satisfy model tox', async () => {
+    const modelA = x.object({ id: x.number(), x: x.string() })
+    const repo = await initRepoHelper({ modelA })
+
+    // @ts-expect-error Type 'number' is not assignable to type 'string'
+    const error = await repo.modelA.post({ id: 0, x: 0 }).catch((e) => e)
+
+    expect(error).toBeInstanceOf(SchemaValidationError)
+    expect(error).toMatchObject({
+      code: ERROR_CODE.doesNotSatisfySchema,
+      brand: 'modelA',
+      id: 0,
+    })
+    expect(error.issues[0].path).toStrictEqual(['x'])
+  })
+
   it('Should throw if not unique record id is found', async () => {
     const modelA = x.object({ id: x.number() })
     const repo = await initRepoHelper({ modelA })
@@ -328,7 +555,67 @@ describe('Repo model "post" method', () => {
     expect(record.updatedBy).toBe(userId)
   })
 
-  it.skip('Must maintain "one-to-one" foreign key relation"', async () => {
+  it('Should throw if foreign key references non existed record', async () => {
+    const modelAId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'modelA')
+    const modelBId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'modelB')
+
+    const modelA = x.object({
+      id: modelAId,
+      modelBIds: x.array(modelBId).optional(),
+    })
+    const modelB = x.object({ id: modelBId, modelAId })
+
+    type A = Infer<typeof modelA>
+    type B = Infer<typeof modelB>
+
+    const repo = await initRepoHelper({ modelA, modelB })
+
+    const sample = { id: 'B0' as B['id'], modelAId: 'A0' as A['id'] }
+
+    await expect(repo.modelB.post(sample)).rejects.toThrow(
+      ERROR.referenceToNonExistedRecord('modelB', 'modelAId', 'A0')
+    )
+
+    await expect(repo.modelB.post(sample)).rejects.toMatchObject({
+      code: ERROR_CODE.referenceToNonExistedRecord,
+      brand: 'modelB',
+      id: 'B0',
+      field: 'modelAId',
+      referenceId: 'A0',
+    })
+
+    expect(await repo.modelB.get()).toStrictEqual([])
+  })
+
+  it('Should throw if one of foreign keys array references non existed record', async () => {
+    const modelAId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'modelA')
+    const modelBId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'modelB')
+
+    const modelA = x.object({
+      id: modelAId,
+      modelBIds: x.array(modelBId).description(IGNORE_RELATION),
+    })
+
+    const modelB = x.object({ id: modelBId })
+
+    type A = Infer<typeof modelA>
+    type B = Infer<typeof modelB>
+
+    const repo = await initRepoHelper({ modelA, modelB })
+
+    await repo.modelB.post({ id: 'B0' as B['id'] })
+
+    const sample = {
+      id: 'A0' as A['id'],
+      modelBIds: ['B0' as B['id'], 'B1' as B['id']],
+    }
+
+    await expect(repo.modelA.post(sample)).rejects.toThrow(
+      ERROR.referenceToNonExistedRecord('modelA', 'modelBIds', 'B1')
+    )
+  })
+
+  it('Must maintain "one-to-one" foreign key relation"', async () => {
     const modelAId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'modelA')
     const modelBId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'modelB')
 
@@ -359,6 +646,135 @@ describe('Repo model "post" method', () => {
 
     expect(actual).toStrictEqual(expected)
   })
+
+  describe('Id generation', () => {
+    const modelAId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'modelA')
+    const modelA = x.object({ id: modelAId, name: x.string() })
+
+    it('id is generated if input has no id', async () => {
+      const repo = await initRepoHelper(
+        { modelA },
+        { models: { modelA: { generateId: 'uuidv7' } } }
+      )
+
+      const record = await repo.modelA.post({ name: 'a' })
+
+      expect(record.id).toMatch(/^[0-9a-f-]{36}$/)
+      expect(await repo.modelA.get({ id: record.id })).toStrictEqual([record])
+
+      // provided id is kept
+      const provided = await repo.modelA.post({
+        id: 'A0' as Infer<typeof modelAId>,
+        name: 'b',
+      })
+
+      expect(provided.id).toBe('A0')
+    })
+
+    it('id is required without generator', async () => {
+      const repo = await initRepoHelper({ modelA })
+
+      await expect(
+        // @ts-expect-error Property 'id' is missing
+        repo.modelA.post({ name: 'a' })
+      ).rejects.toBeInstanceOf(SchemaValidationError)
+    })
+
+    it('taken id is generated again', async () => {
+      const candidates = ['A0', 'A0', 'A1']
+
+      const repo = await initRepoHelper(
+        { modelA },
+        { models: { modelA: { generateId: () => candidates.shift()! } } }
+      )
+
+      expect((await repo.modelA.post({ name: 'a' })).id).toBe('A0')
+      expect((await repo.modelA.post({ name: 'b' })).id).toBe('A1')
+    })
+
+    it('candidate of the last attempt is checked', async () => {
+      const candidates = ['A0', 'A0', 'A0', 'A0', 'A0', 'A1']
+
+      const repo = await initRepoHelper(
+        { modelA },
+        { models: { modelA: { generateId: () => candidates.shift()! } } }
+      )
+
+      // the first candidate is taken by this record
+      await repo.modelA.post({ name: 'a' })
+
+      expect((await repo.modelA.post({ name: 'b' })).id).toBe('A1')
+    })
+
+    it('generation fails if every candidate is taken', async () => {
+      const repo = await initRepoHelper(
+        { modelA },
+        { models: { modelA: { generateId: () => 'A0' } } }
+      )
+
+      await repo.modelA.post({ name: 'a' })
+
+      await expect(repo.modelA.post({ name: 'b' })).rejects.toBeInstanceOf(
+        IdIsAlreadyTakenError
+      )
+    })
+
+    it('generated ids must be unique within "postMany" inputs', async () => {
+      const candidates = ['A0', 'A0', 'A1']
+
+      const repo = await initRepoHelper(
+        { modelA },
+        { models: { modelA: { generateId: () => candidates.shift()! } } }
+      )
+
+      const { succeeded } = await repo.modelA.postMany([
+        { name: 'a' },
+        { name: 'b' },
+      ])
+
+      expect(succeeded).toStrictEqual([
+        ['modelA', 'A0'],
+        ['modelA', 'A1'],
+      ])
+    })
+
+    it('only taken ids of "postMany" inputs are generated again', async () => {
+      const candidates = ['A0', 'A1', 'A2']
+
+      const repo = await initRepoHelper(
+        { modelA },
+        { models: { modelA: { generateId: () => candidates.shift()! } } }
+      )
+
+      await repo.modelA.post({ id: 'A0' as Infer<typeof modelAId>, name: 'a' })
+
+      const { succeeded } = await repo.modelA.postMany([
+        { name: 'b' },
+        { name: 'c' },
+      ])
+
+      expect(succeeded).toStrictEqual([
+        ['modelA', 'A2'],
+        ['modelA', 'A1'],
+      ])
+    })
+
+    it('repeating generator must fail the "postMany" input', async () => {
+      const repo = await initRepoHelper(
+        { modelA },
+        { models: { modelA: { generateId: () => 'A0' } } }
+      )
+
+      const { succeeded, failed } = await repo.modelA.postMany(
+        [{ name: 'a' }, { name: 'b' }],
+        { ordered: false }
+      )
+
+      expect(succeeded).toStrictEqual([['modelA', 'A0']])
+      expect(failed.map((x) => x.index)).toStrictEqual([1])
+      expect(failed[0]?.error).toBeInstanceOf(IdIsAlreadyTakenError)
+    })
+  })
 })
 
 describe('Repo model "put" method', () => {
@@ -457,6 +873,35 @@ describe('Repo model "put" method', () => {
     expect('updatedBy' in updatedRecord).toBe(false)
   })
 
+  it('Should throw if foreign key references non existed record', async () => {
+    const modelAId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'modelA')
+    const modelBId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'modelB')
+
+    const modelA = x.object({ id: modelAId })
+    const modelB = x.object({
+      id: modelBId,
+      modelAId: modelAId.description(IGNORE_RELATION),
+    })
+
+    type A = Infer<typeof modelA>
+    type B = Infer<typeof modelB>
+
+    const repo = await initRepoHelper({ modelA, modelB })
+
+    await repo.modelA.post({ id: 'A0' as A['id'] })
+    await repo.modelB.post({ id: 'B0' as B['id'], modelAId: 'A0' as A['id'] })
+
+    const override = { id: 'B0' as B['id'], modelAId: 'A1' as A['id'] }
+
+    await expect(repo.modelB.put(override)).rejects.toThrow(
+      ERROR.referenceToNonExistedRecord('modelB', 'modelAId', 'A1')
+    )
+
+    const [actual] = await repo.modelB.get({ id: 'B0' as B['id'] })
+
+    expect(actual?.modelAId).toBe('A0')
+  })
+
   it('Should set not specified property values to undefined', async () => {
     const sample = x.object({
       id: x.number(),
@@ -491,77 +936,1535 @@ describe('Repo model "put" method', () => {
   })
 })
 
-describe('Repo model "remove" method', () => {
+describe('Repo model "postMany" and "putMany" methods', () => {
   beforeEach(connectDB)
   afterEach(dropDB)
 
-  it('Should remove singular record by its id', async () => {
-    const id = x.number().brand('id', 'modelA')
+  const userId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'user')
+  const postId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'post')
 
-    type Id = Infer<typeof id>
+  const user = x.object({
+    id: userId,
+    email: x.string(),
+    postIds: x.array(postId).optional(),
+  })
 
-    const modelA = x.object({ id })
+  const post = x.object({ id: postId, userId, title: x.string().optional() })
 
-    const repo = await initRepoHelper({ modelA })
+  type User = Infer<typeof user>
+  type Post = Infer<typeof post>
 
-    const samples = [
-      { id: 1 as Id },
-      { id: 2 as Id },
-      { id: 3 as Id },
-      { id: 4 as Id },
-    ] satisfies Array<Infer<typeof modelA>>
+  const U0 = 'U0' as User['id']
+  const U1 = 'U1' as User['id']
+  const U2 = 'U2' as User['id']
+  const U3 = 'U3' as User['id']
+  const P0 = 'P0' as Post['id']
+  const P1 = 'P1' as Post['id']
+  const P2 = 'P2' as Post['id']
 
-    await repo.modelA.mongo().collection.insertMany(samples)
-    await repo.modelA.remove(3 as Id)
+  it('postMany must insert records and sync back-references', async () => {
+    const repo = await initRepoHelper({ user, post })
 
-    const expected = [{ id: 1 }, { id: 2 }, { id: 4 }]
+    await repo.user.postMany([
+      { id: U0, email: 'a@x.io' },
+      { id: U1, email: 'b@x.io' },
+    ])
 
-    const result = await repo.modelA.mongo().collection.find({}).toArray()
-    const actual = result.map(({ id }) => ({ id })).sort((a, b) => a.id - b.id)
+    const report = await repo.post.postMany([
+      { id: P0, userId: U0 },
+      { id: P1, userId: U0 },
+      { id: P2, userId: U1 },
+    ])
 
-    expect(actual).toStrictEqual(expected)
-  })
+    expect(report).toStrictEqual({
+      succeeded: [
+        ['post', P0],
+        ['post', P1],
+        ['post', P2],
+      ],
+      failed: [],
+      skipped: [],
+    })
 
-  it('Should remove records multiple records in one instruction', async () => {
-    const modelA = x.object({ id: x.number() })
+    const users = await repo.user.get()
 
-    const repo = await initRepoHelper({ modelA })
+    users.sort((a, b) => a.id.localeCompare(b.id))
 
-    const samples = [
-      { id: 1 },
-      { id: 2 },
-      { id: 3 },
-      { id: 4 },
-    ] satisfies Array<Infer<typeof modelA>>
+    expect(users).toStrictEqual([
+      { id: U0, email: 'a@x.io', postIds: [P0, P1] },
+      { id: U1, email: 'b@x.io', postIds: [P2] },
+    ])
 
-    await repo.modelA.mongo().collection.insertMany(samples)
-    await repo.modelA.remove([2, 3])
+    await expect(repo.user.post({ id: U0, email: 'c@x.io' })).rejects.toThrow(
+      IdIsAlreadyTakenError
+    )
+  })
 
-    const expected = [{ id: 1 }, { id: 4 }]
+  it('unordered postMany must write every valid input', async () => {
+    const repo = await initRepoHelper(
+      { user, post },
+      { models: { user: { unique: [{ fields: ['email'] }] } } }
+    )
 
-    const result = await repo.modelA.mongo().collection.find({}).toArray()
-    const actual = result.map(({ id }) => ({ id })).sort((a, b) => a.id - b.id)
+    await repo.user.post({ id: U0, email: 'a@x.io' })
 
-    expect(actual).toStrictEqual(expected)
-  })
-})
+    const report = await repo.user.postMany(
+      [
+        { id: U0, email: 'b@x.io' },
+        { id: U1, email: 'c@x.io' },
+        // @ts-expect-error Property 'email' is missing
+        { id: U2 },
+        { id: U3, email: 'a@x.io' },
+        { id: 'U4' as User['id'], email: 'd@x.io' },
+      ],
+      { ordered: false }
+    )
 
-describe('Repo model "safeRemove" method', () => {
-  beforeEach(connectDB)
-  afterEach(dropDB)
+    expect(report.succeeded).toStrictEqual([
+      ['user', U1],
+      ['user', 'U4'],
+    ])
 
-  const model = {
-    modelA: 'modelA',
-    modelB: 'modelB',
-    modelC: 'modelC',
-    modelD: 'modelD',
-    modelE: 'modelE',
-  } as const
+    expect(report.skipped).toStrictEqual([])
+    expect(report.failed.map((x) => x.index)).toStrictEqual([0, 2, 3])
+    expect(report.failed[0]?.error).toBeInstanceOf(IdIsAlreadyTakenError)
+    expect(report.failed[1]?.error).toBeInstanceOf(SchemaValidationError)
+    expect(report.failed[2]?.error).toMatchObject({
+      code: ERROR_CODE.uniqueConstraintViolation,
+      conflictId: U0,
+    })
 
-  const aId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, model.modelA)
-  const bId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, model.modelB)
-  const cId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, model.modelC)
-  const dId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, model.modelD)
+    expect((await repo.user.get()).length).toBe(3)
+  })
+
+  it('ordered postMany must skip inputs after the first failure', async () => {
+    const repo = await initRepoHelper({ user, post })
+
+    await repo.user.post({ id: U0, email: 'a@x.io' })
+
+    const report = await repo.post.postMany([
+      { id: P0, userId: U0 },
+      { id: P1, userId: U1 },
+      { id: P2, userId: U0 },
+    ])
+
+    expect(report.succeeded).toStrictEqual([['post', P0]])
+    expect(report.failed).toMatchObject([
+      {
+        index: 1,
+        report: ['post', P1],
+        error: { code: ERROR_CODE.referenceToNonExistedRecord },
+      },
+    ])
+    expect(report.skipped).toStrictEqual([{ index: 2, report: ['post', P2] }])
+
+    const [actual] = await repo.user.get({ id: U0 })
+
+    expect(actual?.postIds).toStrictEqual([P0])
+  })
+
+  it('duplicate ids within the inputs must be rejected', async () => {
+    const repo = await initRepoHelper({ user, post })
+
+    const report = await repo.user.postMany(
+      [
+        { id: U0, email: 'a@x.io' },
+        { id: U0, email: 'b@x.io' },
+      ],
+      { ordered: false }
+    )
+
+    expect(report.succeeded).toStrictEqual([['user', U0]])
+    expect(report.failed[0]?.error).toBeInstanceOf(IdIsAlreadyTakenError)
+  })
+
+  it('rejected write must fail the input with a typed error', async () => {
+    const repo = await initRepoHelper({ user, post })
+
+    const { db } = repo.user.mongo().collection
+
+    await db.command({
+      collMod: 'user',
+      validator: { email: { $ne: 'x@x.io' } },
+    })
+
+    const report = await repo.user.postMany(
+      [
+        { id: U0, email: 'x@x.io' },
+        { id: U1, email: 'a@x.io' },
+      ],
+      { ordered: false }
+    )
+
+    expect(report.succeeded).toStrictEqual([['user', U1]])
+    expect(report.failed[0]?.error).toBeInstanceOf(WriteFailedError)
+    expect(report.failed[0]?.error).toMatchObject({
+      code: ERROR_CODE.writeFailed,
+      brand: 'user',
+      id: U0,
+      writeErrorCode: 121,
+    })
+  })
+
+  it('putMany must replace records and move back-references', async () => {
+    const repo = await initRepoHelper({ user, post })
+
+    await repo.user.postMany([
+      { id: U0, email: 'a@x.io' },
+      { id: U1, email: 'b@x.io' },
+    ])
+
+    await repo.post.postMany([
+      { id: P0, userId: U0, title: 'x' },
+      { id: P1, userId: U0, title: 'y' },
+    ])
+
+    const report = await repo.post.putMany(
+      [
+        { id: P0, userId: U1 },
+        { id: P2, userId: U1 },
+        { id: P1, userId: U0 },
+      ],
+      { ordered: false }
+    )
+
+    expect(report.succeeded).toStrictEqual([
+      ['post', P0],
+      ['post', P1],
+    ])
+
+    expect(report.failed).toMatchObject([
+      { index: 1, error: { code: ERROR_CODE.recordNotExists } },
+    ])
+
+    const posts = await repo.post.get()
+
+    posts.sort((a, b) => a.id.localeCompare(b.id))
+
+    expect(posts).toStrictEqual([
+      { id: P0, userId: U1 },
+      { id: P1, userId: U0 },
+    ])
+
+    const users = await repo.user.get()
+
+    users.sort((a, b) => a.id.localeCompare(b.id))
+
+    expect(users).toStrictEqual([
+      { id: U0, email: 'a@x.io', postIds: [P1] },
+      { id: U1, email: 'b@x.io', postIds: [P0] },
+    ])
+  })
+})
+
+describe('Repo model "upsert" method', () => {
+  beforeEach(connectDB)
+  afterEach(dropDB)
+
+  const model = x.object({
+    id: x.string(),
+    x: x.string().optional(),
+    createdAt: x.number().optional(),
+    createdBy: x.string().optional(),
+    updatedAt: x.number().optional(),
+    updatedBy: x.string().optional(),
+  })
+
+  it('Should create missing record and register its id', async () => {
+    const repo = await initRepoHelper({ model })
+
+    const { record, created } = await repo.model.upsert(
+      { id: 'A', x: 'x' },
+      undefined,
+      'creator'
+    )
+
+    expect(created).toBe(true)
+    expect(record).toMatchObject({
+      id: 'A',
+      x: 'x',
+      createdBy: 'creator',
+      updatedBy: 'creator',
+    })
+    expect(record.createdAt).toBe(record.updatedAt)
+
+    await expect(repo.model.post({ id: 'A' })).rejects.toBeInstanceOf(
+      IdIsAlreadyTakenError
+    )
+  })
+
+  it('Should replace existed record keeping its creation props', async () => {
+    const repo = await initRepoHelper({ model })
+
+    const original = await repo.model.post({ id: 'A', x: 'x' }, undefined, 'a')
+
+    await new Promise((resolve) => setTimeout(resolve, 5))
+
+    const { record, created } = await repo.model.upsert(
+      { id: 'A' },
+      undefined,
+      'b'
+    )
+
+    expect(created).toBe(false)
+    expect(record).toStrictEqual({
+      id: 'A',
+      createdAt: original.createdAt,
+      createdBy: 'a',
+      updatedAt: record.updatedAt,
+      updatedBy: 'b',
+    })
+    expect(record.updatedAt).toBeGreaterThan(original.createdAt as number)
+  })
+
+  it('Should throw if id is taken by a record of another model', async () => {
+    const other = x.object({ id: x.string() })
+    const repo = await initRepoHelper({ model, other })
+
+    await repo.other.post({ id: 'A' })
+
+    await expect(repo.model.upsert({ id: 'A' })).rejects.toBeInstanceOf(
+      IdIsAlreadyTakenError
+    )
+  })
+
+  it('Should synchronize back-references on create and replace', async () => {
+    const userId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'user')
+    const postId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'post')
+
+    const user = x.object({ id: userId, postIds: x.array(postId).optional() })
+    const post = x.object({ id: postId, userId })
+
+    type User = Infer<typeof user>
+    type Post = Infer<typeof post>
+
+    const U0 = 'U0' as User['id']
+    const U1 = 'U1' as User['id']
+    const P0 = 'P0' as Post['id']
+
+    const repo = await initRepoHelper({ user, post })
+
+    await repo.user.post({ id: U0 })
+    await repo.user.post({ id: U1 })
+    await repo.post.upsert({ id: P0, userId: U0 })
+
+    expect(await repo.user.get({ id: U0 })).toStrictEqual([
+      { id: U0, postIds: [P0] },
+    ])
+
+    await repo.post.upsert({ id: P0, userId: U1 })
+
+    const actual = await repo.user.get()
+
+    actual.sort((a, b) => a.id.localeCompare(b.id))
+
+    expect(actual).toStrictEqual([
+      { id: U0, postIds: [] },
+      { id: U1, postIds: [P0] },
+    ])
+  })
+})
+
+describe('Optimistic concurrency control', () => {
+  beforeEach(connectDB)
+  afterEach(dropDB)
+
+  const doc = x.object({
+    id: x.string(),
+    title: x.string(),
+    version: x.number().optional(),
+    updatedAt: x.number().optional(),
+  })
+
+  it('version counter must be checked and bumped by "put" and "patch"', async () => {
+    const repo = await initRepoHelper(
+      { doc },
+      { models: { doc: { version: 'version' } } }
+    )
+
+    const created = await repo.doc.post({ id: 'D', title: 'a', version: 10 })
+
+    expect(created.version).toBe(1)
+
+    const updated = await repo.doc.put({ id: 'D', title: 'b', version: 1 })
+
+    expect(updated.version).toBe(2)
+
+    const error = await repo.doc
+      .put({ id: 'D', title: 'c', version: 1 })
+      .catch((e) => e)
+
+    expect(error).toBeInstanceOf(VersionConflictError)
+    expect(error).toMatchObject({
+      code: ERROR_CODE.versionConflict,
+      brand: 'doc',
+      id: 'D',
+      expectedVersion: 1,
+      actualVersion: 2,
+    })
+
+    await expect(
+      repo.doc.patch('D', { title: 'c', version: 1 })
+    ).rejects.toBeInstanceOf(VersionConflictError)
+
+    // without version the patch is checked against the read record
+    await expect(repo.doc.patch('D', { title: 'c' })).resolves.toMatchObject({
+      title: 'c',
+      version: 3,
+    })
+
+    await expect(
+      repo.doc.upsert({ id: 'D', title: 'd' })
+    ).resolves.toMatchObject({
+      record: { title: 'd', version: 4 },
+      created: false,
+    })
+  })
+
+  it('"updatedAt" could be used as the version', async () => {
+    const repo = await initRepoHelper(
+      { doc },
+      { models: { doc: { version: 'updatedAt' } } }
+    )
+
+    const created = await repo.doc.post({ id: 'D', title: 'a' })
+    const updated = await repo.doc.put({ ...created, title: 'b' })
+
+    expect(updated.updatedAt).toBeGreaterThan(created.updatedAt as number)
+
+    await expect(
+      repo.doc.put({ ...created, title: 'c' })
+    ).rejects.toMatchObject({
+      expectedVersion: created.updatedAt,
+      actualVersion: updated.updatedAt,
+    })
+
+    const [actual] = await repo.doc.get({ id: 'D' })
+
+    expect(actual?.title).toBe('b')
+  })
+
+  it('stale inputs of "putMany" must be reported as failed', async () => {
+    const repo = await initRepoHelper(
+      { doc },
+      { models: { doc: { version: 'version' } } }
+    )
+
+    await repo.doc.postMany([
+      { id: 'A', title: 'a' },
+      { id: 'B', title: 'b' },
+    ])
+
+    await repo.doc.put({ id: 'B', title: 'b', version: 1 })
+
+    const report = await repo.doc.putMany(
+      [
+        { id: 'A', title: 'x', version: 1 },
+        { id: 'B', title: 'y', version: 1 },
+      ],
+      { ordered: false }
+    )
+
+    expect(report.succeeded).toStrictEqual([['doc', 'A']])
+    expect(report.failed).toMatchObject([
+      { index: 1, error: { expectedVersion: 1, actualVersion: 2 } },
+    ])
+
+    const actual = await repo.doc.get({}, { sort: { id: 1 } })
+
+    expect(actual.map((x) => [x.title, x.version])).toStrictEqual([
+      ['x', 2],
+      ['b', 2],
+    ])
+  })
+
+  it('mirror field update must bump the version', async () => {
+    const userId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'user')
+    const postId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'post')
+
+    const user = x.object({
+      id: userId,
+      postIds: x.array(postId).optional(),
+      version: x.number().optional(),
+    })
+    const post = x.object({ id: postId, userId })
+
+    const repo = await initRepoHelper(
+      { user, post },
+      { models: { user: { version: 'version' } } }
+    )
+
+    const U0 = 'U0' as Infer<typeof userId>
+    const P0 = 'P0' as Infer<typeof postId>
+
+    const held = await repo.user.post({ id: U0 })
+
+    await repo.post.post({ id: P0, userId: U0 })
+
+    const [actual] = await repo.user.get({ id: U0 })
+
+    expect(actual).toStrictEqual({ id: U0, postIds: [P0], version: 2 })
+
+    await expect(repo.user.put(held)).rejects.toMatchObject({
+      expectedVersion: 1,
+      actualVersion: 2,
+    })
+  })
+
+  it('soft delete and restore must bump the version', async () => {
+    const softDoc = x.object({
+      id: x.string(),
+      title: x.string(),
+      version: x.number().optional(),
+      deletedAt: x.number().optional(),
+    })
+
+    const repo = await initRepoHelper(
+      { doc: softDoc },
+      { models: { doc: { version: 'version', softDelete: true } } }
+    )
+
+    await repo.doc.post({ id: 'D', title: 'a' })
+    await repo.doc.remove('D')
+
+    const [removed] = await repo.doc.get({ id: 'D' }, { withDeleted: true })
+
+    expect(removed?.version).toBe(2)
+
+    const restored = await repo.doc.restore('D')
+
+    expect(restored.version).toBe(3)
+
+    await expect(
+      repo.doc.put({ id: 'D', title: 'b', version: 1 })
+    ).rejects.toMatchObject({ expectedVersion: 1, actualVersion: 3 })
+  })
+
+  it('version field must be number property', async () => {
+    await expect(
+      initRepoHelper({ doc }, { models: { doc: { version: 'title' } } })
+    ).rejects.toThrow(ERROR.invalidVersionKey('doc', 'title'))
+  })
+})
+
+describe('Lifecycle hooks', () => {
+  beforeEach(connectDB)
+  afterEach(dropDB)
+
+  const userId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'user')
+  const postId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'post')
+
+  const user = x.object({ id: userId, email: x.string() })
+  const post = x.object({
+    id: postId,
+    userId: userId.description(IGNORE_RELATION),
+  })
+
+  type User = Infer<typeof user>
+  type Post = Infer<typeof post>
+
+  const U0 = 'U0' as User['id']
+  const P0 = 'P0' as Post['id']
+  const P1 = 'P1' as Post['id']
+
+  it('before hooks could replace the input and after hooks get the record', async () => {
+    const calls: unknown[] = []
+
+    const repo = await initRepoHelper(
+      { user, post },
+      {
+        models: {
+          user: {
+            hooks: {
+              beforePost: (input) => ({
+                ...input,
+                email: input.email.toLowerCase(),
+              }),
+              afterPost: (record, { brand, userId }) => {
+                calls.push(['afterPost', brand, record.email, userId])
+              },
+              beforePut: (input) => {
+                input.email = input.email.trim()
+              },
+              afterPut: (record, { userId }) => {
+                calls.push(['afterPut', record.email, userId])
+              },
+            },
+          },
+        },
+      }
+    )
+
+    await repo.user.post({ id: U0, email: 'A@X.IO' }, undefined, 'admin')
+    await repo._wrap(undefined, 'editor').user.patch(U0, { email: ' b@x.io ' })
+
+    expect(calls).toStrictEqual([
+      ['afterPost', 'user', 'a@x.io', 'admin'],
+      ['afterPut', 'b@x.io', 'editor'],
+    ])
+  })
+
+  it('thrown error must abort the operation', async () => {
+    const repo = await initRepoHelper(
+      { user, post },
+      {
+        models: {
+          user: {
+            hooks: {
+              beforePut: () => {
+                throw new Error('read only')
+              },
+              beforeRemove: () => {
+                throw new Error('read only')
+              },
+            },
+          },
+        },
+      }
+    )
+
+    await repo.user.post({ id: U0, email: 'a@x.io' })
+
+    await expect(repo.user.put({ id: U0, email: 'b@x.io' })).rejects.toThrow(
+      'read only'
+    )
+    await expect(repo.user.remove(U0)).rejects.toThrow('read only')
+
+    expect(await repo.user.get()).toStrictEqual([{ id: U0, email: 'a@x.io' }])
+
+    const report = await repo.user.putMany([{ id: U0, email: 'c@x.io' }])
+
+    expect(report.failed[0]?.error.message).toBe('read only')
+  })
+
+  it('remove hooks must fire for each record removed by "safeRemove"', async () => {
+    const removed: string[] = []
+
+    const repo = await initRepoHelper(
+      { user, post },
+      {
+        models: {
+          user: {
+            hooks: { afterRemove: (record) => void removed.push(record.id) },
+          },
+          post: {
+            onDelete: { userId: 'cascade' },
+            hooks: { afterRemove: (record) => void removed.push(record.id) },
+          },
+        },
+      }
+    )
+
+    await repo.user.post({ id: U0, email: 'a@x.io' })
+    await repo.post.postMany([
+      { id: P0, userId: U0 },
+      { id: P1, userId: U0 },
+    ])
+
+    const { confirm } = await repo.user.safeRemove(U0)
+
+    await confirm()
+
+    expect(removed.sort()).toStrictEqual([P0, P1, U0])
+  })
+
+  it('"afterGet" must fire for the returned records only', async () => {
+    const reads: unknown[] = []
+
+    const repo = await initRepoHelper(
+      { user, post },
+      {
+        models: {
+          user: {
+            hooks: {
+              afterGet: (records) => void reads.push(records.map((x) => x.id)),
+            },
+          },
+        },
+      }
+    )
+
+    await repo.user.post({ id: U0, email: 'a@x.io' })
+    await repo.user.put({ id: U0, email: 'b@x.io' })
+
+    expect(reads).toStrictEqual([])
+
+    await repo.user.get({ id: U0 })
+    await repo.user.paginate({ first: 10 })
+
+    expect(reads).toStrictEqual([[U0], [U0]])
+  })
+
+  it('"afterGet" must get the reading user', async () => {
+    const readers: unknown[] = []
+
+    const repo = await initRepoHelper(
+      { user, post },
+      {
+        models: {
+          user: {
+            hooks: { afterGet: (_, { userId }) => void readers.push(userId) },
+          },
+        },
+      }
+    )
+
+    await repo.user.post({ id: U0, email: 'a@x.io' })
+
+    const wrapped = repo._wrap(undefined, 'editor')
+
+    await wrapped.user.get({ id: U0 })
+    await wrapped.user.paginate({ first: 10 })
+    await repo.user.get({ id: U0 }, { userId: 'admin' })
+    await repo.user.paginate({ first: 10, userId: 'admin' })
+    await repo.user.get({ id: U0 })
+
+    expect(readers).toStrictEqual([
+      'editor',
+      'editor',
+      'admin',
+      'admin',
+      undefined,
+    ])
+  })
+})
+
+describe('Model events', () => {
+  beforeEach(connectDB)
+  afterEach(dropDB)
+
+  const userId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'user')
+  const postId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'post')
+
+  const user = x.object({
+    id: userId,
+    email: x.string(),
+    postIds: x.array(postId).optional(),
+  })
+
+  const post = x.object({ id: postId, userId })
+
+  type User = Infer<typeof user>
+  type Post = Infer<typeof post>
+
+  const U0 = 'U0' as User['id']
+  const P0 = 'P0' as Post['id']
+
+  const waitFor = async (condition: () => boolean) => {
+    for (let attempt = 0; attempt < 100 && condition() === false; attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, 20))
+    }
+  }
+
+  it('writes must emit events with snapshots and acting user', async () => {
+    const repo = await initRepoHelper({ user, post })
+    const events: unknown[] = []
+
+    const unsubscribe = repo.user.subscribe((event) => void events.push(event))
+
+    await repo.user.post({ id: U0, email: 'a@x.io' }, undefined, 'admin')
+    await repo.user.put({ id: U0, email: 'b@x.io' })
+    await repo._wrap(undefined, 'editor').user.remove(U0)
+
+    await waitFor(() => events.length === 3)
+
+    expect(events).toStrictEqual([
+      {
+        type: 'created',
+        brand: 'user',
+        id: U0,
+        after: { id: U0, email: 'a@x.io' },
+        userId: 'admin',
+      },
+      {
+        type: 'updated',
+        brand: 'user',
+        id: U0,
+        before: { id: U0, email: 'a@x.io' },
+        after: { id: U0, email: 'b@x.io' },
+      },
+      {
+        type: 'removed',
+        brand: 'user',
+        id: U0,
+        before: { id: U0, email: 'b@x.io' },
+        userId: 'editor',
+      },
+    ])
+
+    unsubscribe()
+  })
+
+  it('events of the transaction must be delivered after the commit', async () => {
+    const repo = await initRepoHelper({ user, post })
+    const events: string[] = []
+
+    repo.post.subscribe(({ type, id }) => void events.push(`${type}:${id}`))
+
+    await repo.user.post({ id: U0, email: 'a@x.io' })
+    await repo.post.post({ id: P0, userId: U0 })
+
+    const { confirm } = await repo.user.safeRemove(U0)
+
+    await confirm()
+    await waitFor(() => events.length === 2)
+
+    expect(events).toStrictEqual([`created:${P0}`, `removed:${P0}`])
+  })
+
+  it('events of the failed "_withTransaction" must be dropped', async () => {
+    const repo = await initRepoHelper({ user, post })
+    const events: string[] = []
+
+    repo.user.subscribe(({ type, id }) => void events.push(`${type}:${id}`))
+
+    await expect(
+      repo._withTransaction(async (session) => {
+        await repo.user.post({ id: U0, email: 'a@x.io' }, session)
+        throw new Error('rollback')
+      })
+    ).rejects.toThrow('rollback')
+
+    await repo._withTransaction(async (session) => {
+      await repo.user.post({ id: U0, email: 'b@x.io' }, session)
+      await new Promise((resolve) => setTimeout(resolve, 20))
+
+      expect(events).toStrictEqual([])
+    })
+
+    await waitFor(() => events.length === 1)
+
+    expect(events).toStrictEqual([`created:${U0}`])
+    expect(await repo.user.get({ id: U0 })).toStrictEqual([
+      { id: U0, email: 'b@x.io' },
+    ])
+  })
+
+  it('change stream adapter must observe writes of other processes', async () => {
+    const repo = await initRepoHelper({ user, post })
+    const events: string[] = []
+
+    repo.user.subscribe(({ type, id }) => void events.push(`${type}:${id}`))
+
+    const watcher = await repo._watch()
+
+    await repo.user.mongo().collection.insertOne({ id: U0, email: 'a@x.io' })
+    await repo.user.put({ id: U0, email: 'b@x.io' })
+
+    await waitFor(() => events.length === 2)
+    await watcher.close()
+
+    expect(events).toStrictEqual([`created:${U0}`, `updated:${U0}`])
+  })
+})
+
+describe('Audit trail', () => {
+  beforeEach(connectDB)
+  afterEach(dropDB)
+
+  const userId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'user')
+  const postId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'post')
+
+  const user = x.object({ id: userId, email: x.string() })
+  const post = x.object({
+    id: postId,
+    userId: userId.description(IGNORE_RELATION),
+  })
+
+  type User = Infer<typeof user>
+  type Post = Infer<typeof post>
+
+  const U0 = 'U0' as User['id']
+  const P0 = 'P0' as Post['id']
+  const P1 = 'P1' as Post['id']
+
+  const options = {
+    models: { user: { audit: true }, post: { audit: true } },
+  }
+
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 5))
+
+  it('history and asOf must restore the record states', async () => {
+    const repo = await initRepoHelper({ user, post }, options)
+
+    await repo.user.post({ id: U0, email: 'a@x.io' }, undefined, 'admin')
+    await tick()
+    await repo.user.patch(U0, { email: 'b@x.io' }, undefined, 'editor')
+    await tick()
+    await repo.user.remove(U0)
+
+    const history = await repo.user.history(U0)
+
+    expect(
+      history.map(({ operation, userId, snapshot }) => ({
+        operation,
+        userId,
+        snapshot,
+      }))
+    ).toStrictEqual([
+      {
+        operation: 'created',
+        userId: 'admin',
+        snapshot: { id: U0, email: 'a@x.io' },
+      },
+      {
+        operation: 'updated',
+        userId: 'editor',
+        snapshot: { id: U0, email: 'b@x.io' },
+      },
+      { operation: 'removed', userId: undefined, snapshot: undefined },
+    ])
+
+    const [created, updated, removed] = history.map((x) => x.timestamp)
+
+    expect(await repo.user.asOf(U0, created! - 1)).toBe(undefined)
+    expect(await repo.user.asOf(U0, created!)).toStrictEqual({
+      id: U0,
+      email: 'a@x.io',
+    })
+    expect(await repo.user.asOf(U0, removed! - 1)).toStrictEqual({
+      id: U0,
+      email: 'b@x.io',
+    })
+    expect(updated).toBeLessThan(removed!)
+    expect(await repo.user.asOf(U0, removed!)).toBe(undefined)
+  })
+
+  it('"safeRemove" writes must share the correlation id', async () => {
+    const repo = await initRepoHelper(
+      { user, post },
+      {
+        models: {
+          user: { audit: true },
+          post: { audit: true, onDelete: { userId: 'cascade' } },
+        },
+      }
+    )
+
+    await repo.user.post({ id: U0, email: 'a@x.io' })
+    await repo.post.postMany([
+      { id: P0, userId: U0 },
+      { id: P1, userId: U0 },
+    ])
+
+    const { confirm } = await repo.user.safeRemove(U0)
+
+    await confirm()
+
+    const removals = [
+      ...(await repo.user.history(U0)),
+      ...(await repo.post.history(P0)),
+      ...(await repo.post.history(P1)),
+    ].filter((x) => x.operation === 'removed')
+
+    expect(removals.length).toBe(3)
+    expect(typeof removals[0]?.correlationId).toBe('string')
+    expect(typeof removals[0]?.sessionId).toBe('string')
+    expect(new Set(removals.map((x) => x.correlationId)).size).toBe(1)
+
+    const [created] = await repo.post.history(P0)
+
+    expect(created?.correlationId).toBe(undefined)
+  })
+
+  it('audit entry must share the timestamp of the write', async () => {
+    const stamped = x.object({
+      id: userId,
+      email: x.string(),
+      updatedAt: x.number().optional(),
+    })
+
+    const repo = await initRepoHelper({ user: stamped }, options)
+
+    await repo.user.post({ id: U0, email: 'a@x.io' })
+    await repo.user.patch(U0, { email: 'b@x.io' })
+
+    const [record] = await repo.user.get({ id: U0 })
+    const [, updated] = await repo.user.history(U0)
+
+    expect(updated?.timestamp).toBe(record?.updatedAt)
+    expect(await repo.user.asOf(U0, record!.updatedAt!)).toStrictEqual(record)
+  })
+
+  it('mirror field updates must be audited', async () => {
+    const owner = x.object({
+      id: userId,
+      email: x.string(),
+      postIds: x.array(postId).optional(),
+    })
+    const ownedPost = x.object({ id: postId, userId })
+
+    const repo = await initRepoHelper({ user: owner, post: ownedPost }, options)
+
+    await repo.user.post({ id: U0, email: 'a@x.io' })
+    await repo.post.post({ id: P0, userId: U0 }, undefined, 'editor')
+    await repo.post.remove(P0)
+
+    const history = await repo.user.history(U0)
+
+    expect(
+      history.map(({ operation, userId, snapshot }) => ({
+        operation,
+        userId,
+        snapshot,
+      }))
+    ).toStrictEqual([
+      {
+        operation: 'created',
+        userId: undefined,
+        snapshot: { id: U0, email: 'a@x.io' },
+      },
+      {
+        operation: 'updated',
+        userId: 'editor',
+        snapshot: { id: U0, email: 'a@x.io', postIds: [P0] },
+      },
+      {
+        operation: 'updated',
+        userId: undefined,
+        snapshot: { id: U0, email: 'a@x.io', postIds: [] },
+      },
+    ])
+
+    const [postCreated] = await repo.post.history(P0)
+
+    expect(history[1]?.timestamp).toBe(postCreated?.timestamp)
+  })
+
+  it('"safeRemove" setNull updates must be audited', async () => {
+    const referencing = x.object({
+      id: postId,
+      userId: userId.optional().description(IGNORE_RELATION),
+    })
+
+    const repo = await initRepoHelper({ user, post: referencing }, options)
+
+    await repo.user.post({ id: U0, email: 'a@x.io' })
+    await repo.post.post({ id: P0, userId: U0 })
+
+    const { confirm } = await repo.user.safeRemove(U0)
+
+    await confirm()
+
+    const [, updated] = await repo.post.history(P0)
+
+    expect(updated).toMatchObject({
+      operation: 'updated',
+      snapshot: { id: P0 },
+    })
+    expect(typeof updated?.correlationId).toBe('string')
+  })
+
+  it('history of not audited model must throw', async () => {
+    const repo = await initRepoHelper({ user, post })
+
+    await expect(repo.user.history(U0)).rejects.toBeInstanceOf(
+      AuditIsNotEnabledError
+    )
+  })
+})
+
+describe('Repo model "patch" method', () => {
+  beforeEach(connectDB)
+  afterEach(dropDB)
+
+  it('Should throw if record is not exist', async () => {
+    const modelA = x.object({ id: x.number(), a: x.string().optional() })
+    const repo = await initRepoHelper({ modelA })
+
+    await expect(repo.modelA.patch(0, { a: 'a' })).rejects.toThrow(
+      ERROR.recordNotExists('modelA', 0)
+    )
+  })
+
+  it('Should keep absent properties and unset explicitly undefined', async () => {
+    const modelA = x.object({
+      id: x.number(),
+      a: x.string().optional(),
+      b: x.string().optional(),
+      c: x.string().optional(),
+    })
+
+    const repo = await initRepoHelper({ modelA })
+
+    await repo.modelA.post({ id: 0, a: 'a', b: 'b' })
+
+    const actual = await repo.modelA.patch(0, { b: undefined, c: 'c' })
+
+    expect(actual).toStrictEqual({ id: 0, a: 'a', c: 'c' })
+  })
+
+  it('Should throw if merged record does not satisfy model tox', async () => {
+    const modelA = x.object({ id: x.number(), a: x.string() })
+    const repo = await initRepoHelper({ modelA })
+
+    await repo.modelA.post({ id: 0, a: 'a' })
+
+    await expect(repo.modelA.patch(0, { a: undefined })).rejects.toBeTruthy()
+  })
+
+  it('Should set "updatedAt" and "updatedBy" properties automatically', async () => {
+    const modelA = x.object({
+      id: x.number(),
+      a: x.string().optional(),
+      updatedAt: x.number().optional(),
+      updatedBy: x.string().optional(),
+    })
+
+    const repo = await initRepoHelper({ modelA })
+
+    const created = await repo.modelA.post({ id: 0 }, undefined, 'creator')
+    const patched = await repo.modelA.patch(0, { a: 'a' }, undefined, 'updater')
+
+    expect(patched.updatedBy).toBe('updater')
+    expect(patched.updatedAt).not.toBe(created.updatedAt)
+  })
+
+  it('Should re-check discriminated union variant of merged record', async () => {
+    const modelA = x.union([
+      x.object({
+        id: x.number(),
+        kind: x.literal('variantA'),
+        variantAOnly: x.string(),
+      }),
+
+      x.object({
+        id: x.number(),
+        kind: x.literal('variantB'),
+        variantBOnly: x.number(),
+      }),
+    ])
+
+    const repo = await initRepoHelper({ modelA })
+
+    await repo.modelA.post({ id: 0, kind: 'variantA', variantAOnly: 'x' })
+
+    const actual = await repo.modelA.patch(0, {
+      kind: 'variantB',
+      variantBOnly: 1,
+    })
+
+    expect(actual).toStrictEqual({ id: 0, kind: 'variantB', variantBOnly: 1 })
+
+    await expect(
+      repo.modelA.patch(0, { kind: 'variantA' })
+    ).rejects.toBeTruthy()
+  })
+
+  it('Should keep both of interleaved patches of different fields', async () => {
+    const modelA = x.object({
+      id: x.number(),
+      a: x.string().optional(),
+      b: x.string().optional(),
+    })
+
+    let isInterleaved = false
+
+    const repo = await initRepoHelper(
+      { modelA },
+      {
+        models: {
+          modelA: {
+            hooks: {
+              /* Second patch is written between the read and the write */
+              beforePut: async () => {
+                if (isInterleaved === false) {
+                  isInterleaved = true
+                  await repo.modelA.patch(0, { b: 'b' })
+                }
+              },
+            },
+          },
+        },
+      }
+    )
+
+    await repo.modelA.post({ id: 0 })
+
+    const actual = await repo.modelA.patch(0, { a: 'a' })
+
+    expect(actual).toStrictEqual({ id: 0, a: 'a', b: 'b' })
+    expect(await repo.modelA.get({ id: 0 })).toStrictEqual([actual])
+  })
+})
+
+describe('Repo model "remove" method', () => {
+  beforeEach(connectDB)
+  afterEach(dropDB)
+
+  it('Should remove singular record by its id', async () => {
+    const id = x.number().brand('id', 'modelA')
+
+    type Id = Infer<typeof id>
+
+    const modelA = x.object({ id })
+
+    const repo = await initRepoHelper({ modelA })
+
+    const samples = [
+      { id: 1 as Id },
+      { id: 2 as Id },
+      { id: 3 as Id },
+      { id: 4 as Id },
+    ] satisfies Array<Infer<typeof modelA>>
+
+    await repo.modelA.mongo().collection.insertMany(samples)
+    await repo.modelA.remove(3 as Id)
+
+    const expected = [{ id: 1 }, { id: 2 }, { id: 4 }]
+
+    const result = await repo.modelA.mongo().collection.find({}).toArray()
+    const actual = result.map(({ id }) => ({ id })).sort((a, b) => a.id - b.id)
+
+    expect(actual).toStrictEqual(expected)
+  })
+
+  it('Should remove records multiple records in one instruction', async () => {
+    const modelA = x.object({ id: x.number() })
+
+    const repo = await initRepoHelper({ modelA })
+
+    const samples = [
+      { id: 1 },
+      { id: 2 },
+      { id: 3 },
+      { id: 4 },
+    ] satisfies Array<Infer<typeof modelA>>
+
+    await repo.modelA.mongo().collection.insertMany(samples)
+    await repo.modelA.remove([2, 3])
+
+    const expected = [{ id: 1 }, { id: 4 }]
+
+    const result = await repo.modelA.mongo().collection.find({}).toArray()
+    const actual = result.map(({ id }) => ({ id })).sort((a, b) => a.id - b.id)
+
+    expect(actual).toStrictEqual(expected)
+  })
+
+  it('Should keep the id of another model taken', async () => {
+    const modelA = x.object({ id: x.string() })
+    const modelB = x.object({ id: x.string() })
+
+    const repo = await initRepoHelper({ modelA, modelB })
+
+    await repo.modelA.post({ id: 'A0' })
+    await repo.modelB.post({ id: 'B0' })
+    await repo.modelA.remove(['A0', 'B0'])
+
+    expect(await repo.modelB.get()).toStrictEqual([{ id: 'B0' }])
+    await expect(repo.modelA.post({ id: 'B0' })).rejects.toBeInstanceOf(
+      IdIsAlreadyTakenError
+    )
+    expect(await repo.modelA.post({ id: 'A0' })).toStrictEqual({ id: 'A0' })
+  })
+})
+
+describe('Repo model "paginate" method', () => {
+  beforeEach(connectDB)
+  afterEach(dropDB)
+
+  const modelA = x.object({ id: x.number(), x: x.number().optional() })
+
+  const samples = [
+    { id: 0, x: 1 },
+    { id: 1 },
+    { id: 2, x: 0 },
+    { id: 3, x: 1 },
+    { id: 4 },
+  ] satisfies Array<Infer<typeof modelA>>
+
+  const getAllPages = async (
+    repo: Awaited<ReturnType<typeof initRepoHelper<{ modelA: typeof modelA }>>>,
+    order: 1 | -1
+  ) => {
+    const pages: number[][] = []
+
+    let after: string | undefined
+
+    for (;;) {
+      const { items, pageInfo } = await repo.modelA.paginate({
+        sortBy: 'x',
+        order,
+        first: 2,
+        after,
+      })
+
+      pages.push(items.map((item) => item.id))
+
+      if (pageInfo.hasNextPage === false) {
+        return pages
+      }
+
+      after = pageInfo.endCursor
+    }
+  }
+
+  it('ascending order with missing values first', async () => {
+    const repo = await initRepoHelper({ modelA })
+
+    await repo.modelA.mongo().collection.insertMany(samples.map(clone))
+
+    expect(await getAllPages(repo, 1)).toStrictEqual([[1, 4], [2, 0], [3]])
+  })
+
+  it('descending order with missing values last', async () => {
+    const repo = await initRepoHelper({ modelA })
+
+    await repo.modelA.mongo().collection.insertMany(samples.map(clone))
+
+    expect(await getAllPages(repo, -1)).toStrictEqual([[3, 0], [2, 4], [1]])
+  })
+
+  it('filter is applied', async () => {
+    const repo = await initRepoHelper({ modelA })
+
+    await repo.modelA.mongo().collection.insertMany(samples.map(clone))
+
+    const { items, pageInfo } = await repo.modelA.paginate({
+      filter: { x: 1 },
+      first: 5,
+    })
+
+    expect(items).toStrictEqual([samples[0], samples[3]])
+    expect(pageInfo.hasNextPage).toBe(false)
+  })
+
+  it('page size must be a positive integer', async () => {
+    const repo = await initRepoHelper({ modelA })
+
+    for (const first of [0, -1, 1.5, NaN]) {
+      await expect(repo.modelA.paginate({ first })).rejects.toThrow(
+        new InvalidPageSizeError(first)
+      )
+    }
+  })
+
+  it('malformed cursor must throw typed error', async () => {
+    const repo = await initRepoHelper({ modelA })
+
+    await expect(
+      repo.modelA.paginate({ first: 2, after: 'not-a-cursor' })
+    ).rejects.toThrow(new InvalidCursorError('not-a-cursor'))
+  })
+})
+
+describe('Bilateral relation back-reference synchronization', () => {
+  beforeEach(connectDB)
+  afterEach(dropDB)
+
+  const userId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'user')
+  const postId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'post')
+
+  const user = x.object({ id: userId, postIds: x.array(postId).optional() })
+  const post = x.object({ id: postId, userId })
+
+  type User = Infer<typeof user>
+  type Post = Infer<typeof post>
+
+  const U0 = 'U0' as User['id']
+  const U1 = 'U1' as User['id']
+  const P0 = 'P0' as Post['id']
+  const P1 = 'P1' as Post['id']
+
+  it('post must append its id to the mirror array', async () => {
+    const repo = await initRepoHelper({ user, post })
+
+    await repo.user.post({ id: U0 })
+    await repo.post.post({ id: P0, userId: U0 })
+    await repo.post.post({ id: P1, userId: U0 })
+
+    const [actual] = await repo.user.get({ id: U0 })
+
+    expect(actual).toStrictEqual({ id: U0, postIds: [P0, P1] })
+  })
+
+  it('put must move its id between mirror arrays', async () => {
+    const repo = await initRepoHelper({ user, post })
+
+    await repo.user.post({ id: U0 })
+    await repo.user.post({ id: U1 })
+    await repo.post.post({ id: P0, userId: U0 })
+    await repo.post.put({ id: P0, userId: U1 })
+
+    const actual = await repo.user.get()
+
+    actual.sort((a, b) => a.id.localeCompare(b.id))
+
+    expect(actual).toStrictEqual([
+      { id: U0, postIds: [] },
+      { id: U1, postIds: [P0] },
+    ])
+  })
+
+  it('put must move its id between required mirror arrays', async () => {
+    const owner = x.object({ id: userId, postIds: x.array(postId) })
+    const ownedPost = x.object({ id: postId, userId: userId.optional() })
+
+    const repo = await initRepoHelper({ user: owner, post: ownedPost })
+
+    await repo.user.post({ id: U0, postIds: [] })
+    await repo.user.post({ id: U1, postIds: [] })
+    await repo.post.post({ id: P0, userId: U0 })
+    await repo.post.put({ id: P0, userId: U1 })
+
+    const actual = await repo.user.get({}, { sort: { id: 1 } })
+
+    expect(actual).toStrictEqual([
+      { id: U0, postIds: [] },
+      { id: U1, postIds: [P0] },
+    ])
+  })
+
+  it('put of the array side must set mirror one field', async () => {
+    const repo = await initRepoHelper({ user, post })
+
+    await repo.user.post({ id: U0 })
+    await repo.user.post({ id: U1 })
+    await repo.post.post({ id: P0, userId: U0 })
+    await repo.user.put({ id: U1, postIds: [P0] })
+
+    const [actualPost] = await repo.post.get({ id: P0 })
+    const [actualU0] = await repo.user.get({ id: U0 })
+
+    expect(actualPost).toStrictEqual({ id: P0, userId: U1 })
+    expect(actualU0).toStrictEqual({ id: U0, postIds: [] })
+  })
+
+  it('remove must pull its id from the mirror array', async () => {
+    const repo = await initRepoHelper({ user, post })
+
+    await repo.user.post({ id: U0 })
+    await repo.post.post({ id: P0, userId: U0 })
+    await repo.post.post({ id: P1, userId: U0 })
+    await repo.post.remove(P0)
+
+    const [actual] = await repo.user.get({ id: U0 })
+
+    expect(actual).toStrictEqual({ id: U0, postIds: [P1] })
+  })
+
+  it('remove must not clear required mirror field', async () => {
+    const repo = await initRepoHelper({ user, post })
+
+    await repo.user.post({ id: U0 })
+    await repo.post.post({ id: P0, userId: U0 })
+    await repo.user.remove(U0)
+
+    const [actual] = await repo.post.get({ id: P0 })
+
+    expect(actual).toStrictEqual({ id: P0, userId: U0 })
+  })
+})
+
+describe('Soft delete mode', () => {
+  beforeEach(connectDB)
+  afterEach(dropDB)
+
+  const modelA = x.object({
+    id: x.number(),
+    deletedAt: x.number().optional(),
+    updatedBy: x.string().optional(),
+  })
+
+  const options = { models: { modelA: { softDelete: true } } }
+
+  it('Should throw if model has no "deletedAt" property', async () => {
+    const modelB = x.object({ id: x.number() })
+
+    await expect(
+      initRepoHelper({ modelB }, { models: { modelB: { softDelete: true } } })
+    ).rejects.toThrow(ERROR.noDeletedAtField('modelB'))
+  })
+
+  it('remove must mark record instead of deletion', async () => {
+    const repo = await initRepoHelper({ modelA }, options)
+
+    await repo.modelA.post({ id: 0 })
+    await repo.modelA.post({ id: 1 })
+    await repo.modelA.remove(0, undefined, 'user-id-sample')
+
+    expect(await repo.modelA.get()).toStrictEqual([{ id: 1 }])
+
+    const [actual] = await repo.modelA.get({ id: 0 }, { withDeleted: true })
+
+    expect(typeof actual?.deletedAt).toBe('number')
+    expect(actual?.updatedBy).toBe('user-id-sample')
+  })
+
+  it('id of soft deleted record must stay reserved until purge', async () => {
+    const repo = await initRepoHelper({ modelA }, options)
+
+    await repo.modelA.post({ id: 0 })
+    await repo.modelA.remove(0)
+
+    await expect(repo.modelA.post({ id: 0 })).rejects.toThrow(
+      ERROR.idIsAlreadyTaken(0)
+    )
+
+    await repo.modelA.purge(0)
+
+    expect(await repo.modelA.get({}, { withDeleted: true })).toStrictEqual([])
+    expect(await repo.modelA.post({ id: 0 })).toStrictEqual({ id: 0 })
+  })
+
+  it('restore must unmark soft deleted record', async () => {
+    const repo = await initRepoHelper({ modelA }, options)
+
+    await repo.modelA.post({ id: 0 })
+
+    await expect(repo.modelA.restore(0)).rejects.toThrow(
+      ERROR.recordNotExists('modelA', 0)
+    )
+
+    await repo.modelA.remove(0)
+
+    expect(await repo.modelA.restore(0)).toStrictEqual({ id: 0 })
+    expect(await repo.modelA.get()).toStrictEqual([{ id: 0 }])
+  })
+
+  it('reference to soft deleted record is not allowed', async () => {
+    const modelAId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'modelA')
+    const modelBId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'modelB')
+
+    const modelA = x.object({ id: modelAId, deletedAt: x.number().optional() })
+    const modelB = x.object({
+      id: modelBId,
+      modelAId: modelAId.description(IGNORE_RELATION),
+    })
+
+    type A = Infer<typeof modelA>
+    type B = Infer<typeof modelB>
+
+    const repo = await initRepoHelper({ modelA, modelB }, options)
+
+    await repo.modelA.post({ id: 'A0' as A['id'] })
+    await repo.modelA.remove('A0' as A['id'])
+
+    await expect(
+      repo.modelB.post({ id: 'B0' as B['id'], modelAId: 'A0' as A['id'] })
+    ).rejects.toThrow(
+      ERROR.referenceToNonExistedRecord('modelB', 'modelAId', 'A0')
+    )
+  })
+})
+
+describe('Repo model "safeRemove" method', () => {
+  beforeEach(connectDB)
+  afterEach(dropDB)
+
+  const model = {
+    modelA: 'modelA',
+    modelB: 'modelB',
+    modelC: 'modelC',
+    modelD: 'modelD',
+    modelE: 'modelE',
+  } as const
+
+  const aId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, model.modelA)
+  const bId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, model.modelB)
+  const cId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, model.modelC)
+  const dId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, model.modelD)
 
   it('dependent records must be staged for removal and removed after confirmation', async () => {
     const modelA = x.object({ id: aId, modelBId: bId.optional() })
@@ -659,187 +2562,756 @@ describe('Repo model "safeRemove" method', () => {
       [model.modelD, samplesD[2]!.id],
     ]
 
-    expectedStagedForSafeRemoveA1.sort(sorter)
-    safeRemoveA1.stagedForRemove.sort(sorter)
+    expectedStagedForSafeRemoveA1.sort(sorter)
+    safeRemoveA1.stagedForRemove.sort(sorter)
+
+    expect(safeRemoveA1.stagedForRemove).toStrictEqual(
+      expectedStagedForSafeRemoveA1
+    )
+
+    const safeRemoveA1Result = await safeRemoveA1.confirm()
+
+    safeRemoveA1Result.removed.sort(sorter)
+    safeRemoveA1Result.updated?.sort(sorter)
+
+    expect(safeRemoveA1Result).toStrictEqual({
+      removed: [
+        ['modelA', 'A1'],
+        ['modelB', 'B1'],
+        ['modelB', 'B2'],
+        ['modelC', 'C1'],
+        ['modelC', 'C3'],
+        ['modelD', 'D2'],
+        ['modelD', 'D3'],
+      ],
+    })
+
+    // remove C4
+
+    const safeRemoveC4 = await repo.modelC.safeRemove(removeCId)
+
+    if (safeRemoveC4.stagedForRemove !== undefined) {
+      throw Error('Not expected')
+    }
+
+    const expectedStagedForUpdateSafeRemoveC4 = [
+      [model.modelB, samplesB[2]!.id],
+    ]
+
+    expectedStagedForUpdateSafeRemoveC4.sort(sorter)
+    safeRemoveC4.stagedForUpdate?.sort(sorter)
+
+    expect(safeRemoveC4.stagedForUpdate).toStrictEqual(
+      expectedStagedForUpdateSafeRemoveC4
+    )
+
+    const safeRemoveC4Result = await safeRemoveC4.confirm()
+
+    safeRemoveC4Result.removed.sort(sorter)
+    safeRemoveC4Result.updated?.sort(sorter)
+
+    expect(safeRemoveC4Result).toStrictEqual({
+      removed: [['modelC', 'C4']],
+      updated: [['modelB', 'B3']],
+    })
+
+    // remove D4
+
+    const safeRemoveD4 = await repo.modelD.safeRemove(removeDId)
+
+    if (safeRemoveD4.stagedForRemove !== undefined) {
+      throw Error('Not expected')
+    }
+
+    const expectedStagedForUpdateSafeRemoveD4 = [
+      [model.modelC, samplesC[1]!.id],
+    ]
+
+    expectedStagedForUpdateSafeRemoveD4.sort(sorter)
+    safeRemoveD4.stagedForUpdate?.sort(sorter)
+
+    expect(safeRemoveD4.stagedForUpdate).toStrictEqual(
+      expectedStagedForUpdateSafeRemoveD4
+    )
+
+    const safeRemoveD4Result = await safeRemoveD4.confirm()
+
+    safeRemoveD4Result.removed.sort(sorter)
+    safeRemoveD4Result.updated?.sort(sorter)
+
+    expect(safeRemoveD4Result).toStrictEqual({
+      removed: [['modelD', 'D4']],
+      updated: [['modelC', 'C2']],
+    })
+
+    const actualA = await repo.modelA.mongo().collection.find({}).toArray()
+    expect(actualA).toStrictEqual(expectedA)
+
+    const actualB = await repo.modelB.mongo().collection.find({}).toArray()
+    expect(actualB.map((x) => x.id)).toStrictEqual(expectedB.map((x) => x.id))
+
+    const actualC = await repo.modelC.mongo().collection.find({}).toArray()
+    expect(actualC.map((x) => x.id)).toStrictEqual(expectedC.map((x) => x.id))
+
+    const actualD = await repo.modelD.mongo().collection.find({}).toArray()
+    expect(actualD).toStrictEqual(expectedD)
+  })
+
+  it('confirm must refuse to run stale plan', async () => {
+    const modelA = x.object({ id: aId, modelBIds: x.array(bId).optional() })
+    const modelB = x.object({ id: bId, modelAId: aId })
+
+    type A = Infer<typeof modelA>
+    type B = Infer<typeof modelB>
+
+    const repo = await initRepoHelper({ modelA, modelB })
+
+    await repo.modelA.post({ id: 'A0' as A['id'] })
+    await repo.modelB.post({ id: 'B0' as B['id'], modelAId: 'A0' as A['id'] })
+
+    const staged = await repo.modelA.safeRemove('A0' as A['id'])
+
+    expect(staged.stagedForRemove).toStrictEqual([[model.modelB, 'B0']])
+
+    await repo.modelB.post({ id: 'B1' as B['id'], modelAId: 'A0' as A['id'] })
+
+    await expect(staged.confirm()).rejects.toBeInstanceOf(
+      StaleSafeRemovePlanError
+    )
+
+    expect((await repo.modelA.get()).map((x) => x.id)).toStrictEqual(['A0'])
+    expect((await repo.modelB.get()).length).toBe(2)
+  })
+
+  it('confirm must roll back all changes if any step fails', async () => {
+    const modelA = x.object({
+      id: aId,
+      x: x.string(),
+      modelBIds: x.array(bId).optional(),
+    })
+    const modelB = x.object({ id: bId, modelAIds: x.array(aId) })
+
+    const repo = await initRepoHelper({ modelA, modelB })
+
+    await repo.modelA.mongo().collection.insertMany([
+      { id: 'A0', x: 'x', modelBIds: ['B0'] } as never,
+      // does not satisfy schema, the update must fail
+      { id: 'A1', modelBIds: ['B0'] } as never,
+    ])
+
+    await repo.modelB
+      .mongo()
+      .collection.insertMany([{ id: 'B0', modelAIds: ['A0', 'A1'] } as never])
+
+    const staged = await repo.modelB.safeRemove('B0' as Infer<typeof bId>)
+
+    await expect(staged.confirm()).rejects.toBeInstanceOf(SchemaValidationError)
+
+    const actualA = await repo.modelA.get()
+
+    actualA.sort((a, b) => a.id.localeCompare(b.id))
+
+    expect(actualA.map((x) => x.modelBIds)).toStrictEqual([['B0'], ['B0']])
+    expect((await repo.modelB.get()).length).toBe(1)
+  })
+
+  describe('Relation kinds', () => {
+    type Side = { cardinality: 'one' | 'many'; optional: boolean }
+
+    const one = (optional: boolean): Side => ({ cardinality: 'one', optional })
+    const many = (optional: boolean): Side => ({
+      cardinality: 'many',
+      optional,
+    })
+
+    const getFieldKey = (brand: string, side: Side) =>
+      side.cardinality === 'one' ? `${brand}Id` : `${brand}Ids`
+
+    const getFieldSchema = (id: typeof aId, side: Side) => {
+      const schema = side.cardinality === 'one' ? id : x.array(id)
+      return side.optional ? schema.optional() : schema
+    }
+
+    /**
+     * Title is the relation of modelA field to modelB for bilateral
+     * cases and the relation of modelB field to modelA for unilateral
+     **/
+    const cases: Array<[title: string, sideA: Side | undefined, sideB: Side]> =
+      [
+        ['primary-to-secondary; one-to-one', one(true), one(false)],
+        ['primary-to-secondary; one-to-many', one(true), many(false)],
+        ['primary-to-secondary; many-to-one', many(true), one(false)],
+        ['primary-to-secondary; many-to-many', many(true), many(false)],
+        ['secondary-to-primary; one-to-one', one(false), one(true)],
+        ['secondary-to-primary; one-to-many', one(false), many(true)],
+        ['secondary-to-primary; many-to-one', many(false), one(true)],
+        ['secondary-to-primary; many-to-many', many(false), many(true)],
+        ['primary-to-primary; one-to-one', one(true), one(true)],
+        ['primary-to-primary; one-to-many', one(true), many(true)],
+        ['primary-to-primary; many-to-one', many(true), one(true)],
+        ['primary-to-primary; many-to-many', many(true), many(true)],
+        ['primary-unilateral; one', undefined, one(true)],
+        ['primary-unilateral; many', undefined, many(true)],
+        ['secondary-unilateral; one', undefined, one(false)],
+        ['secondary-unilateral; many', undefined, many(false)],
+      ]
+
+    for (const [title, sideA, sideB] of cases) {
+      it(title, async () => {
+        const keyB = getFieldKey(model.modelA, sideB)
+        const fieldB = getFieldSchema(aId, sideB)
+
+        const modelA = x.object({
+          id: aId,
+          ...(sideA && {
+            [getFieldKey(model.modelB, sideA)]: getFieldSchema(
+              bId as never,
+              sideA
+            ),
+          }),
+        })
+
+        const modelB = x.object({
+          id: bId,
+          [keyB]: sideA ? fieldB : fieldB.description(IGNORE_RELATION),
+        })
+
+        const repo = await initRepoHelper({ modelA, modelB })
+        const [relation] = (sideA ? repo.modelA : repo.modelB).relations
+
+        expect(
+          `${relation?.dependencyKind}; ${relation?.cardinalityType}`
+        ).toBe(title)
+
+        await repo.modelA
+          .mongo()
+          .collection.insertMany([{ id: 'A0' }, { id: 'A1' }] as never)
+
+        /* B1 keeps a reference to A1 after A0 is pulled */
+        const samplesB =
+          sideB.cardinality === 'one'
+            ? [{ id: 'B0', [keyB]: 'A0' }]
+            : [
+                { id: 'B0', [keyB]: ['A0'] },
+                { id: 'B1', [keyB]: ['A0', 'A1'] },
+              ]
+
+        await repo.modelB.mongo().collection.insertMany(samplesB as never)
+
+        const isDetached = (id: string) => sideB.optional || id === 'B1'
+
+        const expectedRemoved = [
+          [model.modelA, 'A0'],
+          ...samplesB
+            .filter(({ id }) => isDetached(id) === false)
+            .map(({ id }) => [model.modelB, id]),
+        ]
+
+        const expectedUpdated = samplesB
+          .filter(({ id }) => isDetached(id))
+          .map(({ id }) => [model.modelB, id])
+
+        const staged = await repo.modelA.safeRemove('A0' as never)
+        const actual = await staged.confirm()
+
+        actual.updated?.sort((a, b) => a[1].localeCompare(b[1]))
+
+        expect(actual).toStrictEqual(
+          expectedUpdated.length
+            ? { removed: expectedRemoved, updated: expectedUpdated }
+            : { removed: expectedRemoved }
+        )
+
+        const actualB = (await repo.modelB.get()) as Array<
+          Record<string, unknown>
+        >
+
+        actualB.sort((a, b) => String(a.id).localeCompare(String(b.id)))
+
+        expect(actualB).toStrictEqual(
+          samplesB
+            .filter(({ id }) => isDetached(id))
+            .map(({ id }) =>
+              sideB.cardinality === 'one'
+                ? { id }
+                : { id, [keyB]: id === 'B1' ? ['A1'] : [] }
+            )
+        )
+
+        expect((await repo.modelA.get()).map((x) => x.id)).toStrictEqual(['A1'])
+      })
+    }
+  })
+
+  describe('onDelete policy', () => {
+    const modelA = x.object({ id: aId })
+
+    it('restrict must refuse the removal', async () => {
+      const modelB = x.object({
+        id: bId,
+        ownerId: aId.description(IGNORE_RELATION),
+      })
+
+      const repo = await initRepoHelper(
+        { modelA, modelB },
+        { models: { modelB: { onDelete: { ownerId: 'restrict' } } } }
+      )
+
+      await repo.modelA.post({ id: 'A0' as Infer<typeof aId> })
+      await repo.modelB.post({
+        id: 'B0' as Infer<typeof bId>,
+        ownerId: 'A0' as Infer<typeof aId>,
+      })
+
+      const error = await repo.modelA
+        .safeRemove('A0' as Infer<typeof aId>)
+        .catch((e) => e)
+
+      expect(error).toBeInstanceOf(RestrictedRemoveError)
+      expect(error).toMatchObject({
+        code: ERROR_CODE.restrictedRemove,
+        brand: model.modelA,
+        id: 'A0',
+        restrictedBy: [[model.modelB, 'B0']],
+      })
+
+      expect((await repo.modelA.get()).length).toBe(1)
+      expect((await repo.modelB.get()).length).toBe(1)
+    })
+
+    it('cascade must remove the record referencing through optional key', async () => {
+      const modelB = x.object({
+        id: bId,
+        ownerId: aId.optional().description(IGNORE_RELATION),
+      })
+
+      const repo = await initRepoHelper(
+        { modelA, modelB },
+        { models: { modelB: { onDelete: { ownerId: 'cascade' } } } }
+      )
+
+      await repo.modelA.post({ id: 'A0' as Infer<typeof aId> })
+      await repo.modelB.post({
+        id: 'B0' as Infer<typeof bId>,
+        ownerId: 'A0' as Infer<typeof aId>,
+      })
+
+      const staged = await repo.modelA.safeRemove('A0' as Infer<typeof aId>)
+
+      expect(staged.stagedForRemove).toStrictEqual([[model.modelB, 'B0']])
+      expect(await staged.confirm()).toStrictEqual({
+        removed: [
+          [model.modelA, 'A0'],
+          [model.modelB, 'B0'],
+        ],
+      })
+
+      expect(await repo.modelB.get()).toStrictEqual([])
+    })
+
+    it('setNull must pull the reference from required array key', async () => {
+      const modelB = x.object({
+        id: bId,
+        ownerIds: x.array(aId).description(IGNORE_RELATION),
+      })
+
+      const repo = await initRepoHelper(
+        { modelA, modelB },
+        { models: { modelB: { onDelete: { ownerIds: 'setNull' } } } }
+      )
+
+      await repo.modelA.post({ id: 'A0' as Infer<typeof aId> })
+      await repo.modelB.post({
+        id: 'B0' as Infer<typeof bId>,
+        ownerIds: ['A0' as Infer<typeof aId>],
+      })
+
+      const staged = await repo.modelA.safeRemove('A0' as Infer<typeof aId>)
+
+      expect(staged.stagedForRemove).toBeUndefined()
+      expect(staged.stagedForUpdate).toStrictEqual([[model.modelB, 'B0']])
+
+      await staged.confirm()
+
+      expect(await repo.modelB.get()).toStrictEqual([
+        { id: 'B0', ownerIds: [] },
+      ])
+    })
+
+    it('noAction must leave the reference as is', async () => {
+      const modelB = x.object({
+        id: bId,
+        ownerId: aId.description(IGNORE_RELATION),
+      })
+
+      const repo = await initRepoHelper(
+        { modelA, modelB },
+        { models: { modelB: { onDelete: { ownerId: 'noAction' } } } }
+      )
+
+      await repo.modelA.post({ id: 'A0' as Infer<typeof aId> })
+      await repo.modelB.post({
+        id: 'B0' as Infer<typeof bId>,
+        ownerId: 'A0' as Infer<typeof aId>,
+      })
+
+      const staged = await repo.modelA.safeRemove('A0' as Infer<typeof aId>)
+
+      expect(staged.stagedForRemove).toBeUndefined()
+      expect(staged.stagedForUpdate).toBeUndefined()
+      expect(await staged.confirm()).toStrictEqual({
+        removed: [[model.modelA, 'A0']],
+      })
+
+      expect(await repo.modelB.get()).toStrictEqual([
+        { id: 'B0', ownerId: 'A0' },
+      ])
+    })
+  })
+
+  it('polymorphic foreign key must cascade to the resolved record', async () => {
+    const modelA = x.object({ id: aId })
+    const modelB = x.object({ id: bId })
+
+    const modelC = x.object({
+      id: cId,
+      resourceId: x.union([aId, bId]).description(IGNORE_RELATION),
+      resourceIds: x
+        .array(x.union([aId, bId]))
+        .optional()
+        .description(IGNORE_RELATION),
+    })
 
-    expect(safeRemoveA1.stagedForRemove).toStrictEqual(
-      expectedStagedForSafeRemoveA1
-    )
+    const repo = await initRepoHelper({ modelA, modelB, modelC })
 
-    const safeRemoveA1Result = await safeRemoveA1.confirm()
+    type A = Infer<typeof modelA>
+    type B = Infer<typeof modelB>
+    type C = Infer<typeof modelC>
 
-    safeRemoveA1Result.removed.sort(sorter)
-    safeRemoveA1Result.updated?.sort(sorter)
+    const A0 = 'A0' as A['id']
+    const A1 = 'A1' as A['id']
+    const B0 = 'B0' as B['id']
+    const B1 = 'B1' as B['id']
+
+    await repo.modelA.postMany([{ id: A0 }, { id: A1 }])
+    await repo.modelB.postMany([{ id: B0 }, { id: B1 }])
+    await repo.modelC.postMany([
+      { id: 'C0' as C['id'], resourceId: A0 },
+      { id: 'C1' as C['id'], resourceId: A1, resourceIds: [A0, B1] },
+      { id: 'C2' as C['id'], resourceId: B1 },
+      { id: 'C3' as C['id'], resourceId: B0, resourceIds: [B1] },
+    ])
 
-    expect(safeRemoveA1Result).toStrictEqual({
+    const stagedA = await repo.modelA.safeRemove(A0)
+
+    expect(stagedA.stagedForRemove).toStrictEqual([[model.modelC, 'C0']])
+    expect(stagedA.stagedForUpdate).toStrictEqual([[model.modelC, 'C1']])
+
+    expect(await stagedA.confirm()).toStrictEqual({
       removed: [
-        ['modelA', 'A1'],
-        ['modelB', 'B1'],
-        ['modelB', 'B2'],
-        ['modelC', 'C1'],
-        ['modelC', 'C3'],
-        ['modelD', 'D2'],
-        ['modelD', 'D3'],
+        [model.modelA, A0],
+        [model.modelC, 'C0'],
       ],
+      updated: [[model.modelC, 'C1']],
     })
 
-    // remove C4
+    const stagedB = await repo.modelB.safeRemove(B1)
 
-    const safeRemoveC4 = await repo.modelC.safeRemove(removeCId)
+    expect(stagedB.stagedForRemove).toStrictEqual([[model.modelC, 'C2']])
 
-    if (safeRemoveC4.stagedForRemove !== undefined) {
-      throw Error('Not expected')
-    }
+    await stagedB.confirm()
 
-    const expectedStagedForUpdateSafeRemoveC4 = [
-      [model.modelB, samplesB[2]!.id],
-    ]
+    expect(await repo.modelC.get()).toStrictEqual([
+      { id: 'C1', resourceId: A1, resourceIds: [] },
+      { id: 'C3', resourceId: B0, resourceIds: [] },
+    ])
+  })
 
-    expectedStagedForUpdateSafeRemoveC4.sort(sorter)
-    safeRemoveC4.stagedForUpdate?.sort(sorter)
+  it('polymorphic foreign key must be resolved by registered collection', async () => {
+    const modelA = x.object({ id: aId, name: x.string() })
+    const modelB = x.object({ id: bId, title: x.string() })
 
-    expect(safeRemoveC4.stagedForUpdate).toStrictEqual(
-      expectedStagedForUpdateSafeRemoveC4
-    )
+    const modelC = x.object({
+      id: cId,
+      resourceIds: x.array(x.union([aId, bId])).description(IGNORE_RELATION),
+    })
 
-    const safeRemoveC4Result = await safeRemoveC4.confirm()
+    const repo = await initRepoHelper({ modelA, modelB, modelC })
 
-    safeRemoveC4Result.removed.sort(sorter)
-    safeRemoveC4Result.updated?.sort(sorter)
+    type A = Infer<typeof modelA>
+    type B = Infer<typeof modelB>
+    type C = Infer<typeof modelC>
 
-    expect(safeRemoveC4Result).toStrictEqual({
-      removed: [['modelC', 'C4']],
-      updated: [['modelB', 'B3']],
+    const A0 = 'A0' as A['id']
+    const B0 = 'B0' as B['id']
+    const C0 = 'C0' as C['id']
+
+    await repo.modelA.post({ id: A0, name: 'a' })
+    await repo.modelB.post({ id: B0, title: 'b' })
+    await repo.modelC.post({ id: C0, resourceIds: [B0, A0] })
+
+    const uuids = await repo.modelA
+      .mongo()
+      .collection.db.collection('__uuid')
+      .find({}, { projection: { _id: 0 } })
+      .toArray()
+
+    expect(uuids).toStrictEqual([
+      { id: A0, brand: model.modelA },
+      { id: B0, brand: model.modelB },
+      { id: C0, brand: model.modelC },
+    ])
+
+    expect(
+      await repo.modelC.get({ id: C0 }, { populate: ['resourceIds'] })
+    ).toStrictEqual([
+      {
+        id: C0,
+        resourceIds: [
+          { id: B0, title: 'b' },
+          { id: A0, name: 'a' },
+        ],
+      },
+    ])
+
+    await expect(
+      repo.modelC.patch(C0, { resourceIds: [A0, C0 as unknown as A['id']] })
+    ).rejects.toMatchObject({
+      code: ERROR_CODE.referenceToNonExistedRecord,
+      field: 'resourceIds',
+      referenceId: C0,
     })
+  })
+})
 
-    // remove D4
+describe('Nested object schemas', () => {
+  beforeEach(connectDB)
+  afterEach(dropDB)
 
-    const safeRemoveD4 = await repo.modelD.safeRemove(removeDId)
+  const orderId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'order')
+  const productId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'product')
+  const cityId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'city')
 
-    if (safeRemoveD4.stagedForRemove !== undefined) {
-      throw Error('Not expected')
-    }
+  const order = x.object({
+    id: orderId,
+    address: x.object({ cityId, zip: x.string().optional() }).optional(),
+    items: x.array(x.object({ productId, quantity: x.number() })),
+  })
 
-    const expectedStagedForUpdateSafeRemoveD4 = [
-      [model.modelC, samplesC[1]!.id],
-    ]
+  const product = x.object({ id: productId })
+  const city = x.object({ id: cityId })
 
-    expectedStagedForUpdateSafeRemoveD4.sort(sorter)
-    safeRemoveD4.stagedForUpdate?.sort(sorter)
+  type Order = Infer<typeof order>
 
-    expect(safeRemoveD4.stagedForUpdate).toStrictEqual(
-      expectedStagedForUpdateSafeRemoveD4
+  const O0 = 'O0' as Order['id']
+  const O1 = 'O1' as Order['id']
+  const P0 = 'P0' as Infer<typeof productId>
+  const P1 = 'P1' as Infer<typeof productId>
+  const C0 = 'C0' as Infer<typeof cityId>
+
+  async function getRepo(
+    onDelete: Partial<Record<'items[].productId', 'setNull'>> = {}
+  ) {
+    const repo = await initRepoHelper(
+      { order, product, city },
+      { models: { order: { onDelete } } }
     )
 
-    const safeRemoveD4Result = await safeRemoveD4.confirm()
+    await repo.product.post({ id: P0 })
+    await repo.product.post({ id: P1 })
+    await repo.city.post({ id: C0 })
 
-    safeRemoveD4Result.removed.sort(sorter)
-    safeRemoveD4Result.updated?.sort(sorter)
+    return repo
+  }
 
-    expect(safeRemoveD4Result).toStrictEqual({
-      removed: [['modelD', 'D4']],
-      updated: [['modelC', 'C2']],
-    })
+  it('nested foreign key can not be populated', async () => {
+    const repo = await getRepo()
 
-    const actualA = await repo.modelA.mongo().collection.find({}).toArray()
-    expect(actualA).toStrictEqual(expectedA)
+    await expect(
+      repo.order.get({}, { populate: ['items[].productId'] as never })
+    ).rejects.toThrow(new InvalidPopulateKeyError('order', 'items[].productId'))
+  })
 
-    const actualB = await repo.modelB.mongo().collection.find({}).toArray()
-    expect(actualB.map((x) => x.id)).toStrictEqual(expectedB.map((x) => x.id))
+  it('nested optional absent properties must not be returned', async () => {
+    const repo = await getRepo()
+    const sample: Order = {
+      id: O0,
+      address: { cityId: C0 },
+      items: [{ productId: P0, quantity: 1 }],
+    }
 
-    const actualC = await repo.modelC.mongo().collection.find({}).toArray()
-    expect(actualC.map((x) => x.id)).toStrictEqual(expectedC.map((x) => x.id))
+    await repo.order.post(sample)
 
-    const actualD = await repo.modelD.mongo().collection.find({}).toArray()
-    expect(actualD).toStrictEqual(expectedD)
+    expect(await repo.order.get({ id: O0 })).toStrictEqual([sample])
   })
 
-  it.skip('unilateral', async () => {
-    const modelA = x.object({ id: aId })
-    const modelB = x.object({ id: bId })
+  it('nested reference to not existed record must be refused', async () => {
+    const repo = await getRepo()
 
-    const modelC = x.object({
-      id: cId,
-      resourceId: x.union([aId, bId]).description(IGNORE_RELATION),
+    await expect(
+      repo.order.post({
+        id: O0,
+        items: [
+          { productId: P0, quantity: 1 },
+          { productId: 'P2' as Infer<typeof productId>, quantity: 1 },
+        ],
+      })
+    ).rejects.toMatchObject({
+      code: ERROR_CODE.referenceToNonExistedRecord,
+      brand: 'order',
+      id: O0,
+      field: 'items[].productId',
+      referenceId: 'P2',
     })
+  })
 
-    const repo = await initRepoHelper({ modelA, modelB, modelC })
+  it('nested properties must be filtered by dot path', async () => {
+    const repo = await getRepo()
 
-    type A = Infer<typeof modelA>
-    type B = Infer<typeof modelB>
-    type C = Infer<typeof modelC>
+    await repo.order.post({ id: O0, items: [{ productId: P0, quantity: 1 }] })
+    await repo.order.post({
+      id: O1,
+      address: { cityId: C0 },
+      items: [
+        { productId: P0, quantity: 2 },
+        { productId: P1, quantity: 1 },
+      ],
+    })
 
-    const sorter = (a: string, b: string) => a.localeCompare(b)
+    const actual = await repo.order.get({ 'items.productId': P1 })
+    expect(actual.map((x) => x.id)).toStrictEqual([O1])
 
-    /* A */
+    const withAddress = await repo.order.get({ 'address.cityId': C0 })
+    expect(withAddress.map((x) => x.id)).toStrictEqual([O1])
+  })
 
-    const samplesA = [
-      { id: 'A0' as A['id'] }, // must be removed
-      { id: 'A1' as A['id'] },
-    ] satisfies A[]
+  it('setNull must pull the array element holding the reference', async () => {
+    const repo = await getRepo({ 'items[].productId': 'setNull' })
 
-    const expectedA = [samplesA[1]!] satisfies A[]
+    await repo.order.post({
+      id: O0,
+      items: [
+        { productId: P0, quantity: 1 },
+        { productId: P1, quantity: 1 },
+      ],
+    })
 
-    await repo.modelA.mongo().collection.insertMany(samplesA)
+    const staged = await repo.product.safeRemove(P1)
 
-    /* B */
+    expect(staged.stagedForUpdate).toStrictEqual([['order', O0]])
 
-    const samplesB = [
-      { id: 'B0' as B['id'] },
-      { id: 'B1' as B['id'] }, // must be removed
-    ] satisfies B[]
+    await staged.confirm()
 
-    const expectedB = [samplesB[0]!] satisfies B[]
+    expect(await repo.order.get()).toStrictEqual([
+      { id: O0, items: [{ productId: P0, quantity: 1 }] },
+    ])
+  })
 
-    await repo.modelB.mongo().collection.insertMany(samplesB)
+  it('cascade must remove the record referencing through nested key', async () => {
+    const repo = await getRepo()
 
-    await repo.modelB.safeRemove(samplesB[1]!.id)
+    await repo.order.post({
+      id: O0,
+      address: { cityId: C0 },
+      items: [{ productId: P0, quantity: 1 }],
+    })
 
-    /* C */
+    const staged = await repo.city.safeRemove(C0)
 
-    const samplesC = [
-      { id: 'C0' as C['id'], resourceId: samplesA[0]!.id }, // must be removed automatically
-      { id: 'C1' as C['id'], resourceId: samplesA[1]!.id },
+    expect(staged.stagedForRemove).toStrictEqual([['order', O0]])
 
-      { id: 'C2' as C['id'], resourceId: samplesB[1]!.id }, // must be removed automatically
-      { id: 'C3' as C['id'], resourceId: samplesB[0]!.id },
-    ] satisfies C[]
+    await staged.confirm()
 
-    const expectedC = [samplesC[1]!, samplesC[3]!] satisfies C[]
+    expect(await repo.order.get()).toStrictEqual([])
+  })
+})
 
-    await repo.modelC.mongo().collection.insertMany(samplesC)
+describe('Union model relations', () => {
+  beforeEach(connectDB)
+  afterEach(dropDB)
 
-    /* Action */
+  const ownerId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'owner')
+  const assetId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'asset')
 
-    const stagedForRemoveA = await repo.modelA.safeRemove(samplesA[0]!.id)
+  const owner = x.object({
+    id: ownerId,
+    assetIds: x.array(assetId).optional(),
+  })
 
-    expect(stagedForRemoveA.stagedForUpdate).toBeUndefined()
-    expect(stagedForRemoveA.stagedForRemove).toStrictEqual([['C', 'C0']])
+  const asset = x.union([
+    x.object({ id: assetId, kind: x.literal('vehicle'), ownerId }),
+    x.object({
+      id: assetId,
+      kind: x.literal('building'),
+      ownerId: ownerId.optional(),
+    }),
+    x.object({ id: assetId, kind: x.literal('artwork') }),
+  ])
+
+  const O0 = 'O0' as Infer<typeof ownerId>
+  const A0 = 'A0' as Infer<typeof assetId>
+  const A1 = 'A1' as Infer<typeof assetId>
+  const A2 = 'A2' as Infer<typeof assetId>
+
+  async function getRepo() {
+    const repo = await initRepoHelper({ owner, asset })
+
+    await repo.owner.post({ id: O0 })
+    await repo.asset.post({ id: A0, kind: 'vehicle', ownerId: O0 })
+    await repo.asset.post({ id: A1, kind: 'building', ownerId: O0 })
+    await repo.asset.post({ id: A2, kind: 'artwork' })
+
+    return repo
+  }
+
+  it('mirror field must be synced with the variant records', async () => {
+    const repo = await getRepo()
+
+    expect(await repo.owner.get({ id: O0 })).toStrictEqual([
+      { id: O0, assetIds: [A0, A1] },
+    ])
 
-    const removeResultA = await stagedForRemoveA.confirm()
+    await repo.asset.put({ id: A1, kind: 'artwork' })
 
-    expect(removeResultA.updated).toBeUndefined()
-    expect(removeResultA.removed).toStrictEqual([
-      ['A', 'A0'],
-      ['C', 'C0'],
+    expect(await repo.owner.get({ id: O0 })).toStrictEqual([
+      { id: O0, assetIds: [A0] },
     ])
+  })
 
-    await repo.modelC.safeRemove(samplesC[0]!.id)
+  it('reference to the variant without mirror field must be refused', async () => {
+    const repo = await getRepo()
+
+    await expect(
+      repo.owner.patch(O0, { assetIds: [A0, A1, A2] })
+    ).rejects.toMatchObject({
+      code: ERROR_CODE.referenceToNonExistedRecord,
+      brand: 'owner',
+      id: O0,
+      field: 'assetIds',
+      referenceId: A2,
+    })
+  })
 
-    const actualB = await repo.modelB.mongo().collection.find({}).toArray()
-    expect(actualB.map((x) => x.id).sort(sorter)).toStrictEqual(
-      expectedB.map((x) => x.id).sort(sorter)
-    )
+  it('safeRemove must follow the policy of the record variant', async () => {
+    const repo = await getRepo()
 
-    const actualA = await repo.modelA.mongo().collection.find({}).toArray()
-    expect(actualA.map((x) => x.id).sort(sorter)).toStrictEqual(
-      expectedA.map((x) => x.id).sort(sorter)
-    )
+    const stagedAsset = await repo.asset.safeRemove(A1)
 
-    const actualC = await repo.modelC.mongo().collection.find({}).toArray()
-    expect(actualC.map((x) => x.id).sort(sorter)).toStrictEqual(
-      expectedC.map((x) => x.id).sort(sorter)
-    )
+    expect(stagedAsset.stagedForUpdate).toStrictEqual([['owner', O0]])
+
+    const staged = await repo.owner.safeRemove(O0)
+
+    expect(staged.stagedForRemove).toStrictEqual([['asset', A0]])
+    expect(staged.stagedForUpdate).toStrictEqual([['asset', A1]])
+
+    await staged.confirm()
+
+    expect(
+      (await repo.asset.get()).sort((a, b) => (a.id < b.id ? -1 : 1))
+    ).toStrictEqual([
+      { id: A1, kind: 'building' },
+      { id: A2, kind: 'artwork' },
+    ])
   })
 })
 
@@ -1191,6 +3663,236 @@ describe('Repo model "get" method', () => {
     })
   })
 
+  describe('Options', () => {
+    it('sort ascending with missing values first', async () => {
+      const modelA = x.object({ id: x.number(), x: x.number().optional() })
+      const repo = await initRepoHelper({ modelA })
+      const collection = repo.modelA.mongo().collection
+
+      const samples = [
+        { id: 0, x: 2 },
+        { id: 1 },
+        { id: 2, x: 1 },
+      ] satisfies Array<Infer<typeof modelA>>
+
+      await collection.insertMany(samples.map(clone))
+
+      const expected = [samples[1], samples[2], samples[0]]
+      const actual = await repo.modelA.get({}, { sort: { x: 1 } })
+
+      expect(actual).toStrictEqual(expected)
+    })
+
+    it('sort by multiple fields', async () => {
+      const modelA = x.object({ id: x.number(), x: x.string() })
+      const repo = await initRepoHelper({ modelA })
+      const collection = repo.modelA.mongo().collection
+
+      const samples = [
+        { id: 0, x: 'a' },
+        { id: 1, x: 'b' },
+        { id: 2, x: 'a' },
+      ] satisfies Array<Infer<typeof modelA>>
+
+      await collection.insertMany(samples.map(clone))
+
+      const expected = [samples[1], samples[2], samples[0]]
+      const actual = await repo.modelA.get(undefined, {
+        sort: { x: -1, id: -1 },
+      })
+
+      expect(actual).toStrictEqual(expected)
+    })
+
+    it('skip and limit', async () => {
+      const modelA = x.object({ id: x.number() })
+      const repo = await initRepoHelper({ modelA })
+      const collection = repo.modelA.mongo().collection
+
+      const samples = [
+        { id: 0 },
+        { id: 1 },
+        { id: 2 },
+        { id: 3 },
+      ] satisfies Array<Infer<typeof modelA>>
+
+      await collection.insertMany(samples.map(clone))
+
+      const expected = [samples[1], samples[2]]
+      const actual = await repo.modelA.get(
+        { id: { $gte: 0 } },
+        { sort: { id: 1 }, skip: 1, limit: 2 }
+      )
+
+      expect(actual).toStrictEqual(expected)
+    })
+
+    it('projection narrows the record', async () => {
+      const modelA = x.object({ id: x.number(), a: x.string(), b: x.string() })
+      const repo = await initRepoHelper({ modelA })
+      const collection = repo.modelA.mongo().collection
+
+      const samples = [{ id: 0, a: 'a', b: 'b' }] satisfies Array<
+        Infer<typeof modelA>
+      >
+
+      await collection.insertMany(samples.map(clone))
+
+      const [actual] = await repo.modelA.get({}, { projection: { a: 1 } })
+
+      expect(actual).toStrictEqual({ id: 0, a: 'a' })
+
+      // @ts-expect-error Property 'b' does not exist on type
+      expect(actual?.b).toBeUndefined()
+    })
+
+    it('options with session of wrapped repo', async () => {
+      const modelA = x.object({ id: x.number() })
+      const repo = await initRepoHelper({ modelA })
+      const collection = repo.modelA.mongo().collection
+
+      await collection.insertMany([{ id: 0 }, { id: 1 }])
+
+      const actual = await repo._wrap().modelA.get({}, { sort: { id: -1 } })
+
+      expect(actual).toStrictEqual([{ id: 1 }, { id: 0 }])
+    })
+  })
+
+  describe('Populate', () => {
+    const userId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'user')
+    const postId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'post')
+    const commentId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'comment')
+
+    const user = x.object({
+      id: userId,
+      name: x.string(),
+      postIds: x.array(postId).optional(),
+    })
+
+    const post = x.object({
+      id: postId,
+      title: x.string(),
+      userId: userId,
+      commentIds: x.array(commentId).optional(),
+    })
+
+    const comment = x.object({
+      id: commentId,
+      text: x.string(),
+      postId: postId,
+    })
+
+    type User = Infer<typeof user>
+    type Post = Infer<typeof post>
+    type Comment = Infer<typeof comment>
+
+    const setup = async () => {
+      const repo = await initRepoHelper({ user, post, comment })
+
+      await repo.user.post({ id: 'U0' as User['id'], name: 'alice' })
+      await repo.post.post({
+        id: 'P0' as Post['id'],
+        title: 'hello',
+        userId: 'U0' as User['id'],
+      })
+      await repo.comment.post({
+        id: 'C0' as Comment['id'],
+        text: 'hi',
+        postId: 'P0' as Post['id'],
+      })
+
+      return repo
+    }
+
+    it('foreign key is replaced with the referenced record', async () => {
+      const repo = await setup()
+
+      const [actual] = await repo.post.get({}, { populate: ['userId'] })
+
+      expect(actual?.userId.name).toBe('alice')
+      expect(actual).toStrictEqual({
+        id: 'P0',
+        title: 'hello',
+        userId: { id: 'U0', name: 'alice', postIds: ['P0'] },
+        commentIds: ['C0'],
+      })
+    })
+
+    it('nested populate of foreign key array', async () => {
+      const repo = await setup()
+
+      const [actual] = await repo.user.get(
+        {},
+        { populate: [{ postIds: ['commentIds'] }] }
+      )
+
+      expect(actual?.postIds?.[0]?.commentIds?.[0]?.text).toBe('hi')
+      expect(actual).toStrictEqual({
+        id: 'U0',
+        name: 'alice',
+        postIds: [
+          {
+            id: 'P0',
+            title: 'hello',
+            userId: 'U0',
+            commentIds: [{ id: 'C0', text: 'hi', postId: 'P0' }],
+          },
+        ],
+      })
+    })
+
+    it('unresolved references are omitted', async () => {
+      const repo = await setup()
+
+      await repo.user.mongo().collection.updateOne({ id: 'U0' as User['id'] }, {
+        $push: { postIds: 'P1' },
+      } as never)
+
+      const [actual] = await repo.user.get({}, { populate: ['postIds'] })
+
+      expect(actual?.postIds?.map((x) => x.id)).toStrictEqual(['P0'])
+    })
+
+    it('null reference must be omitted as the absent one', async () => {
+      const draftId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'draft')
+      const draft = x.object({
+        id: draftId,
+        userId: userId.nullable().description(IGNORE_RELATION),
+      })
+
+      type Draft = Infer<typeof draft>
+
+      const repo = await initRepoHelper({ user, post, comment, draft })
+
+      await repo.user.post({ id: 'U0' as User['id'], name: 'alice' })
+      await repo.draft.post({ id: 'D0' as Draft['id'], userId: null })
+      await repo.draft.post({
+        id: 'D1' as Draft['id'],
+        userId: 'U0' as User['id'],
+      })
+
+      const actual = await repo.draft.get(
+        {},
+        { populate: ['userId'], sort: { id: 1 } }
+      )
+
+      expect(actual).toStrictEqual([
+        { id: 'D0' },
+        { id: 'D1', userId: { id: 'U0', name: 'alice' } },
+      ])
+    })
+
+    it('not foreign key can not be populated', async () => {
+      const repo = await setup()
+
+      await expect(
+        // @ts-expect-error Type '"name"' is not assignable
+        repo.user.get({}, { populate: ['name'] })
+      ).rejects.toBeInstanceOf(InvalidPopulateKeyError)
+    })
+  })
+
   describe('Deeply nested filtering operation examples', () => {
     it('double $not', async () => {
       const modelA = x.object({ id: x.number(), x: x.string().optional() })
@@ -1,8 +1,30 @@
 import * as x from 'schematox'
-import { FOREIGN_KEY_BRAND_TYPE } from '../constants'
-import { getCollectionForeignKeyRelations } from '../utils'
+import {
+  ERROR,
+  ERROR_CODE,
+  FOREIGN_KEY_BRAND_TYPE,
+  IGNORE_RELATION,
+} from '../constants'
+import { InvalidCursorError, SchemaDefinitionError } from '../errors'
+import {
+  decodeCursor,
+  detachReference,
+  encodeCursor,
+  generateNanoid,
+  generateUlid,
+  generateUuidV7,
+  getBackReferenceUpdates,
+  getCollectionForeignKeyRelations,
+  getFieldValue,
+  getIndexesDrift,
+  getKeysetFilter,
+  getModelIndexes,
+  getUniqueIndexes,
+  getVersionKey,
+  sanitizeMongoRecord,
+} from '../utils'
 
-import type { FieldRelation } from '../types'
+import type { BackReferenceUpdate, FieldRelation } from '../types'
 
 describe('FieldRelation definition', () => {
   describe('Unilateral', () => {
@@ -52,6 +74,8 @@ describe('FieldRelation definition', () => {
 
         targetCollectionName: 'modelB',
         targetCollectionFieldKey: 'modelAId',
+
+        onDelete: 'setNull',
       }
 
       expect(actualModelARelation).toStrictEqual(expectedModelARelation)
@@ -70,6 +94,8 @@ describe('FieldRelation definition', () => {
 
         targetCollectionName: 'modelA',
         targetCollectionFieldKey: 'modelBIds',
+
+        onDelete: 'cascade',
       }
 
       expect(actualModelBRelation).toStrictEqual(expectedModelBRelation)
@@ -89,3 +115,968 @@ describe('FieldRelation definition', () => {
     it.todo('dependencyKind: primary-to-primary; cardinality: many-to-many')
   })
 })
+
+describe('Schema definition errors', () => {
+  const getError = (fn: () => unknown) => {
+    try {
+      fn()
+    } catch (error) {
+      return error
+    }
+
+    throw Error('Not expected')
+  }
+
+  it('model id branded as other model foreign key', () => {
+    const modelBId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'modelB')
+    const modelA = x.object({ id: modelBId })
+    const modelB = x.object({ id: modelBId })
+
+    const error = getError(() =>
+      getCollectionForeignKeyRelations({ modelA, modelB }, 'modelA')
+    )
+
+    expect(error).toBeInstanceOf(SchemaDefinitionError)
+    expect(error).toMatchObject({
+      code: ERROR_CODE.invalidIdBrand,
+      message: ERROR.invalidIdBrand('modelA', 'modelB'),
+      brand: 'modelA',
+      field: 'id',
+    })
+  })
+
+  it('foreign key references not registered model', () => {
+    const modelBId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'modelB')
+    const modelA = x.object({ id: x.string(), modelBId })
+
+    const error = getError(() =>
+      getCollectionForeignKeyRelations({ modelA }, 'modelA')
+    )
+
+    expect(error).toMatchObject({
+      code: ERROR_CODE.invalidBrandReferenceNoSuchModel,
+      message: ERROR.invalidBrandReferenceNoSuchModel(
+        'modelA',
+        'modelBId',
+        'modelB'
+      ),
+      brand: 'modelA',
+      field: 'modelBId',
+    })
+  })
+
+  it('foreign key references the same model', () => {
+    const modelAId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'modelA')
+    const modelA = x.object({ id: modelAId, parentId: modelAId.optional() })
+
+    const error = getError(() =>
+      getCollectionForeignKeyRelations({ modelA }, 'modelA')
+    )
+
+    expect(error).toMatchObject({
+      code: ERROR_CODE.forbiddenRecursiveRelation,
+      message: ERROR.forbiddenRecursiveRelation('modelA', 'parentId'),
+    })
+  })
+
+  it('foreign key brand on not string type', () => {
+    const modelA = x.object({
+      id: x.string(),
+      modelBId: x
+        .number()
+        .brand(FOREIGN_KEY_BRAND_TYPE, 'modelB')
+        .description(IGNORE_RELATION),
+    })
+
+    const modelB = x.object({ id: x.string() })
+
+    const error = getError(() =>
+      getCollectionForeignKeyRelations({ modelA, modelB }, 'modelA')
+    )
+
+    expect(error).toMatchObject({
+      code: ERROR_CODE.invalidForeignKeyBrandTypeUsage,
+      message: ERROR.invalidForeignKeyBrandTypeUsage('modelA', 'modelBId'),
+    })
+  })
+})
+
+describe('FieldRelation onDelete policy', () => {
+  const modelAId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'modelA')
+  const modelBId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'modelB')
+  const modelCId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'modelC')
+
+  const modelA = x.object({ id: modelAId, modelBIds: x.array(modelBId) })
+  const modelB = x.object({
+    id: modelBId,
+    modelAId: modelAId.optional(),
+    ownerId: modelCId.description(IGNORE_RELATION),
+  })
+  const modelC = x.object({ id: modelCId })
+
+  const models = { modelA, modelB, modelC }
+
+  it('default policy depends on foreign key optionality', () => {
+    const { relations } = getCollectionForeignKeyRelations(models, 'modelB')
+
+    expect(
+      relations.map((x) => [x.sourceCollectionFieldKey, x.onDelete])
+    ).toStrictEqual([
+      ['modelAId', 'setNull'],
+      ['ownerId', 'cascade'],
+    ])
+  })
+
+  it('policy could be defined per foreign key', () => {
+    const { relations } = getCollectionForeignKeyRelations(models, 'modelB', {
+      modelAId: 'noAction',
+      ownerId: 'restrict',
+    })
+
+    expect(
+      relations.map((x) => [x.sourceCollectionFieldKey, x.onDelete])
+    ).toStrictEqual([
+      ['modelAId', 'noAction'],
+      ['ownerId', 'restrict'],
+    ])
+  })
+
+  it('setNull policy is applicable to required array foreign key', () => {
+    const { relations } = getCollectionForeignKeyRelations(models, 'modelA', {
+      modelBIds: 'setNull',
+    })
+
+    expect(relations[0]?.onDelete).toBe('setNull')
+  })
+
+  it('setNull policy of required foreign key', () => {
+    expect(() =>
+      getCollectionForeignKeyRelations(models, 'modelB', {
+        ownerId: 'setNull',
+      })
+    ).toThrow(
+      new SchemaDefinitionError(
+        ERROR_CODE.invalidSetNullOnDelete,
+        ERROR.invalidSetNullOnDelete('modelB', 'ownerId'),
+        'modelB',
+        'ownerId'
+      )
+    )
+  })
+
+  it('policy of not foreign key', () => {
+    expect(() =>
+      getCollectionForeignKeyRelations(models, 'modelB', {
+        id: 'cascade',
+      })
+    ).toThrow(ERROR.invalidOnDeleteKey('modelB', 'id'))
+  })
+})
+
+describe('Back-reference updates computation', () => {
+  const oneToMany: FieldRelation = {
+    dependencyKind: 'secondary-to-primary',
+    cardinalityType: 'one-to-many',
+    sourceCollectionName: 'post',
+    sourceCollectionFieldKey: 'userId',
+    targetCollectionName: 'user',
+    targetCollectionFieldKey: 'postIds',
+    onDelete: 'cascade',
+  }
+
+  const manyToOne: FieldRelation = {
+    dependencyKind: 'primary-to-secondary',
+    cardinalityType: 'many-to-one',
+    sourceCollectionName: 'user',
+    sourceCollectionFieldKey: 'postIds',
+    targetCollectionName: 'post',
+    targetCollectionFieldKey: 'userId',
+    onDelete: 'setNull',
+  }
+
+  it('creation appends source id to the target array', () => {
+    const actual = getBackReferenceUpdates([oneToMany], undefined, {
+      id: 'P0',
+      userId: 'U0',
+    })
+
+    expect(actual).toStrictEqual([
+      [
+        'user',
+        {
+          updateOne: {
+            filter: { id: 'U0', postIds: null },
+            update: { $set: { postIds: [] } },
+          },
+        },
+      ],
+      [
+        'user',
+        {
+          updateOne: {
+            filter: { id: 'U0' },
+            update: { $addToSet: { postIds: 'P0' } },
+          },
+        },
+      ],
+    ])
+  })
+
+  it('reassignment pulls source id from the previous target', () => {
+    const actual = getBackReferenceUpdates(
+      [oneToMany],
+      { id: 'P0', userId: 'U0' },
+      { id: 'P0', userId: 'U1' }
+    )
+
+    expect(actual[0]).toStrictEqual([
+      'user',
+      {
+        updateOne: {
+          filter: { id: 'U0', postIds: 'P0' },
+          update: { $pull: { postIds: 'P0' } },
+        },
+      },
+    ])
+
+    expect(actual.length).toBe(3)
+  })
+
+  it('removal clears optional target field', () => {
+    const actual = getBackReferenceUpdates(
+      [oneToMany],
+      { id: 'P0', userId: 'U0' },
+      undefined
+    )
+
+    expect(actual).toStrictEqual([
+      [
+        'user',
+        {
+          updateOne: {
+            filter: { id: 'U0', postIds: 'P0' },
+            update: { $pull: { postIds: 'P0' } },
+          },
+        },
+      ],
+    ])
+  })
+
+  it('reassignment pulls source id from the required target array', () => {
+    const actual = getBackReferenceUpdates(
+      [{ ...oneToMany, dependencyKind: 'primary-to-secondary' }],
+      { id: 'P0', userId: 'U0' },
+      { id: 'P0', userId: 'U1' }
+    )
+
+    expect(actual[0]).toStrictEqual([
+      'user',
+      {
+        updateOne: {
+          filter: { id: 'U0', postIds: 'P0' },
+          update: { $pull: { postIds: 'P0' } },
+        },
+      },
+    ])
+  })
+
+  it('removal never clears required target field', () => {
+    const actual = getBackReferenceUpdates(
+      [manyToOne],
+      { id: 'U0', postIds: ['P0'] },
+      undefined
+    )
+
+    expect(actual).toStrictEqual([])
+  })
+
+  it('attachment of target one field detaches it from previous source', () => {
+    const actual = getBackReferenceUpdates(
+      [manyToOne],
+      { id: 'U0', postIds: [] },
+      { id: 'U0', postIds: ['P0'] }
+    )
+
+    expect(actual).toStrictEqual([
+      [
+        'post',
+        {
+          updateOne: {
+            filter: { id: 'P0' },
+            update: { $set: { userId: 'U0' } },
+          },
+        },
+      ],
+      [
+        'user',
+        {
+          updateMany: {
+            filter: { id: { $ne: 'U0' }, postIds: 'P0' },
+            update: { $pull: { postIds: 'P0' } },
+          },
+        },
+      ],
+    ])
+  })
+
+  it('updated record version must be bumped', () => {
+    const actual = getBackReferenceUpdates(
+      [oneToMany],
+      { id: 'P0', userId: 'U0' },
+      { id: 'P0', userId: 'U1' },
+      { user: 'version' },
+      1000
+    )
+
+    expect(actual.map(([, x]) => x)).toStrictEqual([
+      {
+        updateOne: {
+          filter: { id: 'U0', postIds: 'P0' },
+          update: { $pull: { postIds: 'P0' }, $inc: { version: 1 } },
+        },
+      },
+      {
+        updateOne: {
+          filter: { id: 'U1', postIds: null },
+          update: { $set: { postIds: [] } },
+        },
+      },
+      {
+        updateOne: {
+          filter: { id: 'U1' },
+          update: { $addToSet: { postIds: 'P0' }, $inc: { version: 1 } },
+        },
+      },
+    ])
+
+    const [[, updatedAtVersion]] = getBackReferenceUpdates(
+      [manyToOne],
+      { id: 'U0', postIds: [] },
+      { id: 'U0', postIds: ['P0'] },
+      { post: 'updatedAt' },
+      1000
+    ) as [BackReferenceUpdate]
+
+    expect(updatedAtVersion).toStrictEqual({
+      updateOne: {
+        filter: { id: 'P0' },
+        update: { $set: { userId: 'U0' }, $max: { updatedAt: 1000 } },
+      },
+    })
+  })
+
+  it('unilateral relations are ignored', () => {
+    const actual = getBackReferenceUpdates(
+      [
+        {
+          dependencyKind: 'secondary-unilateral',
+          cardinalityType: 'one',
+          sourceCollectionName: 'post',
+          sourceCollectionFieldKey: 'userId',
+          targetCollectionName: 'user',
+          onDelete: 'cascade',
+        },
+      ],
+      undefined,
+      { id: 'P0', userId: 'U0' }
+    )
+
+    expect(actual).toStrictEqual([])
+  })
+})
+
+describe('Union model relations', () => {
+  const ownerId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'owner')
+  const assetId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'asset')
+
+  const owner = x.object({
+    id: ownerId,
+    assetIds: x.array(assetId).optional(),
+  })
+
+  const asset = x.union([
+    x.object({ id: assetId, kind: x.literal('vehicle'), ownerId }),
+    x.object({
+      id: assetId,
+      kind: x.literal('building'),
+      ownerId: ownerId.optional(),
+    }),
+    x.object({ id: assetId, kind: x.literal('artwork') }),
+  ])
+
+  const models = { owner, asset }
+
+  it('relation is made per union target variant with the mirror key', () => {
+    const { relations } = getCollectionForeignKeyRelations(models, 'owner')
+
+    expect(relations).toStrictEqual([
+      {
+        dependencyKind: 'primary-to-secondary',
+        cardinalityType: 'many-to-one',
+        sourceCollectionName: 'owner',
+        sourceCollectionFieldKey: 'assetIds',
+        targetCollectionName: 'asset',
+        targetCollectionFieldKey: 'ownerId',
+        targetVariant: { kind: 'vehicle' },
+        onDelete: 'setNull',
+      },
+      {
+        dependencyKind: 'primary-to-primary',
+        cardinalityType: 'many-to-one',
+        sourceCollectionName: 'owner',
+        sourceCollectionFieldKey: 'assetIds',
+        targetCollectionName: 'asset',
+        targetCollectionFieldKey: 'ownerId',
+        targetVariant: { kind: 'building' },
+        onDelete: 'setNull',
+      },
+    ])
+  })
+
+  it('relation of union source is scoped to the variant', () => {
+    const { relations } = getCollectionForeignKeyRelations(models, 'asset')
+
+    expect(
+      relations.map(({ dependencyKind, sourceVariant, onDelete }) => ({
+        dependencyKind,
+        sourceVariant,
+        onDelete,
+      }))
+    ).toStrictEqual([
+      {
+        dependencyKind: 'secondary-to-primary',
+        sourceVariant: { kind: 'vehicle' },
+        onDelete: 'cascade',
+      },
+      {
+        dependencyKind: 'primary-to-primary',
+        sourceVariant: { kind: 'building' },
+        onDelete: 'setNull',
+      },
+    ])
+  })
+
+  it('union target without any mirror key is not related', () => {
+    const artwork = x.union([x.object({ id: assetId, kind: x.literal('a') })])
+
+    expect(() =>
+      getCollectionForeignKeyRelations({ owner, asset: artwork }, 'owner')
+    ).toThrow(ERROR.noUserDefinedRelation('asset', 'owner', 'assetIds'))
+  })
+
+  it('back-reference updates are limited to the variants', () => {
+    const { relations } = getCollectionForeignKeyRelations(models, 'owner')
+
+    const pullFromOtherOwners = [
+      'owner',
+      {
+        updateMany: {
+          filter: { id: { $ne: 'O0' }, assetIds: 'A0' },
+          update: { $pull: { assetIds: 'A0' } },
+        },
+      },
+    ]
+
+    expect(
+      getBackReferenceUpdates(relations, undefined, {
+        id: 'O0',
+        assetIds: ['A0'],
+      })
+    ).toStrictEqual([
+      [
+        'asset',
+        {
+          updateOne: {
+            filter: { kind: 'vehicle', id: 'A0' },
+            update: { $set: { ownerId: 'O0' } },
+          },
+        },
+      ],
+      pullFromOtherOwners,
+      [
+        'asset',
+        {
+          updateOne: {
+            filter: { kind: 'building', id: 'A0' },
+            update: { $set: { ownerId: 'O0' } },
+          },
+        },
+      ],
+      pullFromOtherOwners,
+    ])
+
+    const assetRelations = getCollectionForeignKeyRelations(
+      models,
+      'asset'
+    ).relations
+
+    expect(
+      getBackReferenceUpdates(
+        assetRelations,
+        { id: 'A0', kind: 'building', ownerId: 'O0' },
+        { id: 'A0', kind: 'vehicle', ownerId: 'O0' }
+      )
+    ).toStrictEqual([
+      [
+        'owner',
+        {
+          updateOne: {
+            filter: { id: 'O0', assetIds: null },
+            update: { $set: { assetIds: [] } },
+          },
+        },
+      ],
+      [
+        'owner',
+        {
+          updateOne: {
+            filter: { id: 'O0' },
+            update: { $addToSet: { assetIds: 'A0' } },
+          },
+        },
+      ],
+      [
+        'owner',
+        {
+          updateOne: {
+            filter: { id: 'O0', assetIds: 'A0' },
+            update: { $pull: { assetIds: 'A0' } },
+          },
+        },
+      ],
+    ])
+  })
+})
+
+describe('Polymorphic foreign keys', () => {
+  const userId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'user')
+  const orgId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'org')
+  const fileId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'file')
+
+  const ownerId = x.union([userId, orgId]).description(IGNORE_RELATION)
+
+  const file = x.object({
+    id: fileId,
+    ownerId,
+    sharedWithIds: x
+      .array(x.union([userId, orgId]))
+      .optional()
+      .description(IGNORE_RELATION),
+    meta: x.object({ reviewerId: x.union([userId, orgId]).optional() }),
+  })
+
+  const models = {
+    user: x.object({ id: userId }),
+    org: x.object({ id: orgId }),
+    file,
+  }
+
+  it('union of foreign keys is single relation to every member model', () => {
+    const { relations } = getCollectionForeignKeyRelations(models, 'file')
+
+    expect(relations).toStrictEqual([
+      {
+        dependencyKind: 'secondary-unilateral',
+        cardinalityType: 'one',
+        sourceCollectionName: 'file',
+        sourceCollectionFieldKey: 'ownerId',
+        targetCollectionName: ['user', 'org'],
+        onDelete: 'cascade',
+      },
+      {
+        dependencyKind: 'primary-unilateral',
+        cardinalityType: 'many',
+        sourceCollectionName: 'file',
+        sourceCollectionFieldKey: 'sharedWithIds',
+        targetCollectionName: ['user', 'org'],
+        onDelete: 'setNull',
+      },
+      {
+        dependencyKind: 'primary-unilateral',
+        cardinalityType: 'one',
+        sourceCollectionName: 'file',
+        sourceCollectionFieldKey: 'meta.reviewerId',
+        targetCollectionName: ['user', 'org'],
+        onDelete: 'setNull',
+      },
+    ])
+  })
+
+  it('every member model of the union must be registered', () => {
+    expect(() =>
+      getCollectionForeignKeyRelations(
+        { user: models.user, file: x.object({ id: fileId, ownerId }) },
+        'file'
+      )
+    ).toThrow(ERROR.invalidBrandReferenceNoSuchModel('file', 'ownerId', 'org'))
+  })
+})
+
+describe('Pagination cursor', () => {
+  it('encoded cursor is decoded to the same value', () => {
+    const cursor = encodeCursor(['value', 'id'])
+
+    expect(decodeCursor(cursor)).toStrictEqual(['value', 'id'])
+  })
+
+  it('invalid cursor throws', () => {
+    expect(() => decodeCursor('invalid')).toThrow(
+      ERROR.invalidCursor('invalid')
+    )
+  })
+
+  it('cursor with operator value throws', () => {
+    const cursor = Buffer.from(JSON.stringify([{ $ne: 0 }, 'id'])).toString(
+      'base64url'
+    )
+
+    expect(() => decodeCursor(cursor)).toThrow(new InvalidCursorError(cursor))
+    expect(() => decodeCursor(encodeCursor([null, 'id']))).not.toThrow()
+  })
+
+  it('ascending order keyset filter', () => {
+    expect(getKeysetFilter('x', 1, [2, 'A'])).toStrictEqual({
+      $or: [{ x: { $gt: 2 } }, { x: 2, id: { $gt: 'A' } }],
+    })
+  })
+
+  it('ascending order keyset filter after missing value', () => {
+    expect(getKeysetFilter('x', 1, [null, 'A'])).toStrictEqual({
+      $or: [{ x: null, id: { $gt: 'A' } }, { x: { $ne: null } }],
+    })
+  })
+
+  it('descending order keyset filter includes missing values', () => {
+    expect(getKeysetFilter('x', -1, [2, 'A'])).toStrictEqual({
+      $or: [{ x: { $lt: 2 } }, { x: 2, id: { $lt: 'A' } }, { x: null }],
+    })
+  })
+
+  it('descending order keyset filter after missing value', () => {
+    expect(getKeysetFilter('x', -1, [null, 'A'])).toStrictEqual({
+      x: null,
+      id: { $lt: 'A' },
+    })
+  })
+
+  it('id keyset filter', () => {
+    expect(getKeysetFilter('id', -1, ['A', 'A'])).toStrictEqual({
+      id: { $lt: 'A' },
+    })
+  })
+})
+
+describe('Nested object schemas', () => {
+  const orderId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'order')
+  const productId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'product')
+  const cityId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'city')
+
+  const order = x.object({
+    id: orderId,
+    address: x.object({ cityId, zip: x.string().optional() }).optional(),
+    items: x.array(
+      x.object({
+        productId,
+        giftIds: x.array(productId).optional(),
+        quantity: x.number(),
+      })
+    ),
+  })
+
+  const product = x.object({ id: productId })
+  const city = x.object({ id: cityId })
+
+  const models = { order, product, city }
+
+  it('nested foreign keys are unilateral relations of the field path', () => {
+    const { relations } = getCollectionForeignKeyRelations(models, 'order')
+
+    expect(relations).toStrictEqual([
+      {
+        dependencyKind: 'secondary-unilateral',
+        cardinalityType: 'one',
+        sourceCollectionName: 'order',
+        sourceCollectionFieldKey: 'address.cityId',
+        targetCollectionName: 'city',
+        onDelete: 'cascade',
+      },
+      {
+        dependencyKind: 'secondary-unilateral',
+        cardinalityType: 'many',
+        sourceCollectionName: 'order',
+        sourceCollectionFieldKey: 'items[].productId',
+        targetCollectionName: 'product',
+        onDelete: 'cascade',
+      },
+      {
+        dependencyKind: 'primary-unilateral',
+        cardinalityType: 'many',
+        sourceCollectionName: 'order',
+        sourceCollectionFieldKey: 'items[].giftIds',
+        targetCollectionName: 'product',
+        onDelete: 'setNull',
+      },
+    ])
+
+    expect(getModelIndexes(relations).map((x) => x.name)).toStrictEqual([
+      'id_1',
+      'address.cityId_1',
+      'items.productId_1',
+      'items.giftIds_1',
+    ])
+  })
+
+  it('policy of nested foreign key is defined by the field path', () => {
+    const { relations } = getCollectionForeignKeyRelations(models, 'order', {
+      'items[].productId': 'setNull',
+    })
+
+    expect(relations[1]?.onDelete).toBe('setNull')
+
+    expect(() =>
+      getCollectionForeignKeyRelations(models, 'order', {
+        'address.cityId': 'setNull',
+      })
+    ).toThrow(ERROR.invalidSetNullOnDelete('order', 'address.cityId'))
+  })
+
+  it('nested foreign key references not registered model', () => {
+    expect(() =>
+      getCollectionForeignKeyRelations({ order, product }, 'order')
+    ).toThrow(
+      new SchemaDefinitionError(
+        ERROR_CODE.invalidBrandReferenceNoSuchModel,
+        ERROR.invalidBrandReferenceNoSuchModel(
+          'order',
+          'address.cityId',
+          'city'
+        ),
+        'order',
+        'address.cityId'
+      )
+    )
+  })
+
+  it('field value of the nested path', () => {
+    const record = {
+      id: 'O0',
+      address: { cityId: 'C0' },
+      items: [{ productId: 'P0', giftIds: ['P2', 'P3'] }, { productId: 'P1' }],
+    }
+
+    expect(getFieldValue(record, 'id')).toBe('O0')
+    expect(getFieldValue(record, 'address.cityId')).toStrictEqual(['C0'])
+    expect(getFieldValue(record, 'items[].productId')).toStrictEqual([
+      'P0',
+      'P1',
+    ])
+    expect(getFieldValue(record, 'items[].giftIds')).toStrictEqual(['P2', 'P3'])
+    expect(getFieldValue({ id: 'O1' }, 'items[].productId')).toStrictEqual([])
+  })
+
+  it('detached reference of the nested path', () => {
+    const record = {
+      id: 'O0',
+      address: { cityId: 'C0', zip: '000' },
+      items: [{ productId: 'P0', giftIds: ['P1', 'P2'] }, { productId: 'P1' }],
+    }
+
+    expect(detachReference(record, 'address.cityId', 'C0')).toStrictEqual({
+      ...record,
+      address: { zip: '000' },
+    })
+
+    expect(detachReference(record, 'items[].productId', 'P1')).toStrictEqual({
+      ...record,
+      items: [{ productId: 'P0', giftIds: ['P1', 'P2'] }],
+    })
+
+    expect(detachReference(record, 'items[].giftIds', 'P1')).toStrictEqual({
+      ...record,
+      items: [{ productId: 'P0', giftIds: ['P2'] }, { productId: 'P1' }],
+    })
+
+    expect(record.items[0]?.giftIds).toStrictEqual(['P1', 'P2'])
+  })
+
+  it('nested absent properties stored as null are removed', () => {
+    const record = {
+      _id: 'x',
+      id: 'O0',
+      note: null,
+      address: { cityId: 'C0', zip: null },
+      items: [{ productId: 'P0', giftIds: null }],
+    }
+
+    sanitizeMongoRecord(record)
+
+    expect(record).toStrictEqual({
+      id: 'O0',
+      address: { cityId: 'C0' },
+      items: [{ productId: 'P0' }],
+    })
+  })
+})
+
+describe('Model indexes', () => {
+  const relations: FieldRelation[] = [
+    {
+      dependencyKind: 'secondary-unilateral',
+      cardinalityType: 'one',
+      sourceCollectionName: 'post',
+      sourceCollectionFieldKey: 'userId',
+      targetCollectionName: 'user',
+      onDelete: 'cascade',
+    },
+  ]
+
+  it('unique id, foreign keys and user-defined indexes are expected', () => {
+    expect(
+      getModelIndexes(relations, [
+        { key: { title: 'text' } },
+        { key: { createdAt: 1 }, name: 'ttl', expireAfterSeconds: 60 },
+      ])
+    ).toStrictEqual([
+      { key: { id: 1 }, name: 'id_1', unique: true },
+      { key: { userId: 1 }, name: 'userId_1' },
+      { key: { title: 'text' }, name: 'title_text' },
+      { key: { createdAt: 1 }, name: 'ttl', expireAfterSeconds: 60 },
+    ])
+  })
+
+  it('drift against existing indexes', () => {
+    const expected = getModelIndexes(relations, [
+      { key: { title: 'text' } },
+      { key: { slug: 1 }, unique: true },
+    ])
+
+    const existing = [
+      { v: 2, key: { _id: 1 }, name: '_id_' },
+      { v: 2, key: { id: 1 }, name: 'id_1', unique: true },
+      { v: 2, key: { _fts: 'text', _ftsx: 1 }, name: 'title_text' },
+      { v: 2, key: { slug: 1 }, name: 'slug_1' },
+      { v: 2, key: { legacy: 1 }, name: 'legacy_1' },
+    ]
+
+    expect(getIndexesDrift(expected, existing)).toStrictEqual({
+      missing: ['userId_1'],
+      changed: ['slug_1'],
+      extraneous: ['legacy_1'],
+    })
+  })
+})
+
+describe('Unique constraint indexes', () => {
+  const modelA = x.union([
+    x.object({
+      id: x.string(),
+      kind: x.literal('product'),
+      sku: x.string(),
+      tags: x.array(x.string()).optional(),
+    }),
+    x.object({
+      id: x.string(),
+      kind: x.literal('service'),
+      orgId: x.string(),
+      code: x.number().optional(),
+    }),
+  ])
+
+  it('partial index is limited to the records with all the fields', () => {
+    expect(
+      getUniqueIndexes(modelA, 'modelA', [
+        { fields: ['orgId', 'code'] },
+        { fields: ['sku'], variant: { kind: 'product' } },
+      ])
+    ).toStrictEqual([
+      {
+        key: { orgId: 1, code: 1 },
+        name: 'unique_orgId_1_code_1',
+        unique: true,
+        partialFilterExpression: {
+          orgId: { $type: 'string' },
+          code: { $type: 'number' },
+        },
+      },
+      {
+        key: { sku: 1 },
+        name: 'unique_sku_1_kind_product',
+        unique: true,
+        partialFilterExpression: {
+          kind: 'product',
+          sku: { $type: 'string' },
+        },
+      },
+    ])
+  })
+
+  it('unique constraint of not primitive property', () => {
+    expect(() =>
+      getUniqueIndexes(modelA, 'modelA', [{ fields: ['tags'] }])
+    ).toThrow(
+      new SchemaDefinitionError(
+        ERROR_CODE.invalidUniqueKey,
+        ERROR.invalidUniqueKey('modelA', 'tags'),
+        'modelA',
+        'tags'
+      )
+    )
+
+    expect(() =>
+      getUniqueIndexes(modelA, 'modelA', [{ fields: ['missing'] }])
+    ).toThrow(ERROR.invalidUniqueKey('modelA', 'missing'))
+  })
+})
+
+describe('Version field', () => {
+  const model = x.object({
+    id: x.string(),
+    version: x.number().optional(),
+    title: x.string(),
+  })
+
+  it('version field must be number property', () => {
+    expect(getVersionKey(model, 'model', undefined)).toBe(undefined)
+    expect(getVersionKey(model, 'model', 'version')).toBe('version')
+
+    expect(() => getVersionKey(model, 'model', 'title')).toThrow(
+      new SchemaDefinitionError(
+        ERROR_CODE.invalidVersionKey,
+        ERROR.invalidVersionKey('model', 'title'),
+        'model',
+        'title'
+      )
+    )
+
+    expect(() => getVersionKey(model, 'model', 'missing')).toThrow(
+      ERROR.invalidVersionKey('model', 'missing')
+    )
+  })
+})
+
+describe('Id generators', () => {
+  it('uuidv7 is time ordered version 7 uuid', () => {
+    const first = generateUuidV7()
+    const second = generateUuidV7()
+
+    expect(first).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+    )
+    expect(first.slice(0, 13) <= second.slice(0, 13)).toBe(true)
+    expect(first).not.toBe(second)
+  })
+
+  it('ulid is time ordered crockford base32 string', () => {
+    const first = generateUlid()
+    const second = generateUlid()
+
+    expect(first).toMatch(/^[0-9A-HJKMNP-TV-Z]{26}$/)
+    expect(first.slice(0, 10) <= second.slice(0, 10)).toBe(true)
+    expect(first).not.toBe(second)
+  })
+
+  it('nanoid is url safe string', () => {
+    expect(generateNanoid()).toMatch(/^[A-Za-z0-9_-]{21}$/)
+    expect(generateNanoid(8)).toHaveLength(8)
+  })
+})
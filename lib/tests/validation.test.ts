@@ -0,0 +1,172 @@
+import * as x from 'schematox'
+
+import { runCli } from '../cli'
+import { FOREIGN_KEY_BRAND_TYPE } from '../constants'
+import { validateDatabase } from '../validation'
+import {
+  DB_NAME,
+  connectDB,
+  dbConnect,
+  dropDB,
+  initRepoHelper,
+} from './test-helpers'
+
+import type { Infer } from 'schematox'
+
+describe('Database validation', () => {
+  beforeEach(connectDB)
+  afterEach(dropDB)
+
+  const userId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'user')
+  const postId = x.string().brand(FOREIGN_KEY_BRAND_TYPE, 'post')
+
+  const user = x.object({
+    id: userId,
+    name: x.string(),
+    postIds: x.array(postId).optional(),
+    deletedAt: x.number().optional(),
+  })
+
+  const post = x.object({ id: postId, userId })
+
+  type User = Infer<typeof user>
+  type Post = Infer<typeof post>
+
+  const U0 = 'U0' as User['id']
+  const U1 = 'U1' as User['id']
+  const U2 = 'U2' as User['id']
+  const P0 = 'P0' as Post['id']
+  const P1 = 'P1' as Post['id']
+
+  /**
+   * Consistent records corrupted by the writes bypassing the repo
+   **/
+  async function getCorruptedRepo() {
+    const repo = await initRepoHelper(
+      { user, post },
+      { models: { user: { softDelete: true } } }
+    )
+
+    await repo.user.post({ id: U0, name: 'a' })
+    await repo.user.post({ id: U1, name: 'b' })
+    await repo.user.post({ id: U2, name: 'c' })
+    await repo.post.post({ id: P0, userId: U0 })
+    await repo.post.post({ id: P1, userId: U1 })
+    await repo.user.remove(U2)
+
+    const { db } = repo.user.mongo().collection
+
+    await db
+      .collection('user')
+      .updateOne({ id: U0 }, { $set: { postIds: [P1] } })
+    await db.collection('user').updateOne({ id: U1 }, { $set: { name: 1 } })
+    await db.collection('post').insertOne({ id: 'P2', userId: U2 })
+    await db.collection('__uuid').insertOne({ id: 'X0' })
+
+    return repo
+  }
+
+  it('integrity issues must be reported', async () => {
+    const repo = await getCorruptedRepo()
+    const report = await validateDatabase(repo)
+
+    expect(
+      report.nonConforming.map(({ brand, id }) => ({ brand, id }))
+    ).toStrictEqual([{ brand: 'user', id: U1 }])
+
+    expect(report).toMatchObject({
+      danglingReferences: [
+        { brand: 'post', id: 'P2', field: 'userId', referenceId: U2 },
+      ],
+      mirrorMismatches: [
+        {
+          brand: 'user',
+          id: U0,
+          field: 'postIds',
+          targetBrand: 'post',
+          targetId: P1,
+          targetField: 'userId',
+          fixed: false,
+        },
+        {
+          brand: 'post',
+          id: P0,
+          field: 'userId',
+          targetBrand: 'user',
+          targetId: U0,
+          targetField: 'postIds',
+          fixed: false,
+        },
+      ],
+      missingUuids: [{ brand: 'post', id: 'P2', fixed: false }],
+      orphanUuids: [{ id: 'X0', fixed: false }],
+    })
+  })
+
+  it('fix must repair only the safely fixable issues', async () => {
+    const repo = await getCorruptedRepo()
+    const report = await validateDatabase(repo, { fix: true })
+
+    expect(report.mirrorMismatches.map((x) => x.fixed)).toStrictEqual([
+      false,
+      true,
+    ])
+    expect(report.missingUuids).toStrictEqual([
+      { brand: 'post', id: 'P2', fixed: true },
+    ])
+    expect(report.orphanUuids).toStrictEqual([{ id: 'X0', fixed: true }])
+
+    const [record] = await repo.user
+      .mongo()
+      .collection.find({ id: U0 })
+      .toArray()
+
+    expect(record?.postIds).toStrictEqual([P1, P0])
+
+    const rest = await validateDatabase(repo)
+
+    expect(rest.nonConforming).toHaveLength(1)
+    expect(rest.danglingReferences).toHaveLength(1)
+    expect(rest.mirrorMismatches).toMatchObject([{ id: U0, targetId: P1 }])
+    expect(rest.missingUuids).toStrictEqual([])
+    expect(rest.orphanUuids).toStrictEqual([])
+  })
+
+  it('CLI exit code must reflect unfixed issues', async () => {
+    const model = x.object({ id: x.string() })
+    const repo = await initRepoHelper({ model })
+
+    await repo.model.mongo().collection.insertOne({ id: 'A' })
+
+    const run = async (args: string[]) => {
+      const output: string[] = []
+      const config = {
+        connect: async () => ({
+          mongoClient: await dbConnect(),
+          dbName: DB_NAME,
+          repo,
+        }),
+        migrationsDir: 'migrations',
+      }
+
+      const code = await runCli(args, config, (x) => void output.push(x))
+
+      return { code, output }
+    }
+
+    expect(await run(['validate'])).toStrictEqual({
+      code: 1,
+      output: ['missing __uuid "model: A"', '1 issue(s), 0 fixed'],
+    })
+
+    expect(await run(['validate', '--fix'])).toStrictEqual({
+      code: 0,
+      output: ['missing __uuid "model: A" (fixed)', '1 issue(s), 1 fixed'],
+    })
+
+    expect(await run(['validate'])).toStrictEqual({
+      code: 0,
+      output: ['0 issue(s), 0 fixed'],
+    })
+  })
+})
@@ -1,4 +1,10 @@
-import type { ClientSession, Collection } from 'mongodb'
+import type {
+  AnyBulkWriteOperation,
+  ClientSession,
+  Collection,
+  Document,
+  MongoClient,
+} from 'mongodb'
 import type {
   Infer,
   PrimitiveSchema,
@@ -9,19 +15,32 @@ import type {
   LiteralSchema,
   ArraySchema,
   ParseResult,
+  InvalidSubject,
 } from 'schematox'
+import type { FOREIGN_KEY_BRAND_TYPE } from './constants'
+
+export type RepoModelPropertySchema =
+  | PrimitiveSchema
+  | UnionSchema<Array<LiteralSchema<string> | StringSchema>>
+  | NestedObjectSchema
+  | ArraySchema<
+      | StringSchema
+      | NumberSchema
+      | UnionSchema<Array<StringSchema /* TODO: allow string literal */>>
+      | NestedObjectSchema
+    >
+
+/**
+ * Embedded sub-document, foreign keys inside of it are unilateral
+ * relations keyed by the field path. Declared as interface
+ * since type alias can not reference itself
+ **/
+export interface NestedObjectSchema extends ObjectSchema<
+  Record<string, RepoModelPropertySchema>
+> {}
 
 export type BaseRepoModelSchema = ObjectSchema<
-  Record<
-    string,
-    | PrimitiveSchema
-    | UnionSchema<Array<LiteralSchema<string> | StringSchema>>
-    | ArraySchema<
-        | StringSchema
-        | NumberSchema
-        | UnionSchema<Array<StringSchema /* TODO: allow string literal */>>
-      >
-  >
+  Record<string, RepoModelPropertySchema>
 >
 
 export type UnionRepoModelSchema = UnionSchema<Array<BaseRepoModelSchema>>
@@ -36,6 +55,17 @@ export type CommonDoc = {
   updatedBy?: string
 }
 
+/**
+ * What happens to the referencing record when the referenced one
+ * is removed by `safeRemove`. Default is `cascade` for required
+ * foreign keys and `setNull` for optional ones
+ **/
+export type OnDeletePolicy =
+  | 'cascade' // remove the record, array key is pulled unless it becomes empty
+  | 'setNull' // unset the key, array key is pulled
+  | 'restrict' // refuse the removal
+  | 'noAction' // leave the reference as is
+
 export type FieldRelationUnilateral = {
   dependencyKind:
     | 'primary-unilateral' // reference is optional
@@ -50,7 +80,18 @@ export type FieldRelationUnilateral = {
     | string[] // field is union of branded foreign key strings
 
   sourceCollectionFieldKey: string
-  targetCollectionName: string | string[]
+
+  targetCollectionName:
+    | string // field is branded foreign key string
+    | string[] // polymorphic field, union of branded foreign key strings
+
+  /**
+   * Literal properties of the discriminated union source
+   * variant which has the field, absent for object model
+   **/
+  sourceVariant?: Record<string, string | number | boolean>
+
+  onDelete: OnDeletePolicy
 }
 
 export type FieldRelationBilateral = {
@@ -70,6 +111,15 @@ export type FieldRelationBilateral = {
 
   targetCollectionName: string
   targetCollectionFieldKey: string
+
+  /**
+   * Literal properties of the discriminated union variants which
+   * have the field and the mirror field, absent for object model
+   **/
+  sourceVariant?: Record<string, string | number | boolean>
+  targetVariant?: Record<string, string | number | boolean>
+
+  onDelete: OnDeletePolicy
 }
 
 export type FieldRelation = FieldRelationUnilateral | FieldRelationBilateral
@@ -80,17 +130,68 @@ export type RepoTox = {
 }
 
 export type MutationReport = [brand: string, id: string]
+export type BackReferenceUpdate = [
+  brand: string,
+  operation: AnyBulkWriteOperation,
+]
+export type SafeRemovePlan = {
+  removed: MutationReport[]
+  updated: Array<{
+    report: MutationReport
+    fieldKey: string
+    referenceId: string
+  }>
+  restrictedBy: MutationReport[]
+}
+
+export type WriteManyOptions = {
+  session?: ClientSession
+  userId?: string
+
+  /**
+   * Stop on the first failed input, the following inputs are
+   * skipped. Otherwise every valid input is written. Default `true`
+   **/
+  ordered?: boolean
+}
+
+/**
+ * Per-input result of `postMany` and `putMany`, failed
+ * and skipped inputs keep their index in the input array
+ **/
+export type WriteManyReport = {
+  succeeded: MutationReport[]
+  failed: Array<{ index: number; report: MutationReport; error: Error }>
+  skipped: Array<{ index: number; report: MutationReport }>
+}
+
+export type UpsertResult<T> = {
+  record: T
+  created: boolean
+}
+
 export type SafeRemoveResult = {
   updated?: MutationReport[]
   removed: MutationReport[]
 }
 
+export type PostInput<T> = T extends unknown
+  ? Omit<T, 'id'> & { id?: T[Extract<'id', keyof T>] }
+  : never
+
+export type PatchInput<T> = T extends unknown
+  ? { [K in Exclude<keyof T, 'id'>]?: T[K] | undefined }
+  : never
+
 export type RepoModel<
   T extends RepoTox = RepoTox,
   U extends Record<string, unknown> = Infer<T>,
+  M extends Record<string, RepoTox> = Record<string, RepoTox>,
+  I extends boolean = false,
 > = {
   tox: T
   relations: FieldRelation[]
+  softDelete: boolean
 
   mongo: (
     session?: ClientSession,
@@ -101,13 +202,72 @@ export type RepoModel<
     userId?: string
   }
 
-  get: (filter?: MongoFilter<U>, session?: ClientSession) => Promise<U[]>
+  /**
+   * Listen to `created`, `updated` and `removed` events of the model
+   * records. Returns the function removing the listener
+   **/
+  subscribe: (listener: RepoEventListener<U>) => () => void
+
+  /**
+   * Audit trail entries of the record in chronological
+   * order, requires `audit` model option
+   **/
+  history: (id: U['id'], session?: ClientSession) => Promise<AuditEntry<U>[]>
+
+  /**
+   * State of the record at the timestamp restored from the
+   * audit trail, `undefined` if it did not exist at the time
+   **/
+  asOf: (
+    id: U['id'],
+    timestamp: number,
+    session?: ClientSession
+  ) => Promise<U | undefined>
+
+  /**
+   * Find records matching the filter. The second argument is either
+   * session or `GetOptions` with sorting, pagination, projection
+   * and population. Projected records have only the projected
+   * properties and `id`, populated foreign keys are replaced
+   * with the referenced records
+   **/
+  get: {
+    (filter?: MongoFilter<U>, session?: ClientSession): Promise<U[]>
+    <
+      P extends ProjectionOptions<U> | undefined = undefined,
+      Q extends PopulateOptions<U, M> | undefined = undefined,
+    >(
+      filter: MongoFilter<U> | undefined,
+      options: GetOptions<U, P, Q>
+    ): Promise<Array<Populated<Projected<U, P>, M, Q>>>
+  }
+
+  /**
+   * Keyset pagination ordered by `sortBy` field with `id` as tie-breaker.
+   * Pass `pageInfo.endCursor` as `after` in order to get the next page
+   **/
+  paginate: (options: PaginateOptions<U>) => Promise<Page<U>>
 
   /**
    * Create new record. Attempt to write on existing
-   * record will throw error
+   * record will throw error. If model has `generateId`
+   * option the `id` could be omitted
    **/
-  post: (input: U, session?: ClientSession, userId?: string) => Promise<U>
+  post: (
+    input: I extends true ? PostInput<U> : U,
+    session?: ClientSession,
+    userId?: string
+  ) => Promise<U>
+
+  /**
+   * Create many records at once, every input is validated
+   * the same way as by `post` but each check is done by
+   * a single query for all the inputs
+   **/
+  postMany: (
+    inputs: Array<I extends true ? PostInput<U> : U>,
+    options?: WriteManyOptions
+  ) => Promise<WriteManyReport>
 
   /**
    * Update existed record. Attempt to update non existing
@@ -124,7 +284,43 @@ export type RepoModel<
   put: (input: U, session?: ClientSession, userId?: string) => Promise<U>
 
   /**
-   * Delete one or many records by id
+   * Update many existed records at once, the bulk
+   * counterpart of `put` same as `postMany` of `post`
+   **/
+  putMany: (inputs: U[], options?: WriteManyOptions) => Promise<WriteManyReport>
+
+  /**
+   * Create the record if it does not exist, otherwise replace it
+   * the same way as `put`. Stored `createdAt` and `createdBy` are
+   * kept on replace. The existence check and the write are done
+   * by a single atomic operation
+   **/
+  upsert: (
+    input: U,
+    session?: ClientSession,
+    userId?: string
+  ) => Promise<UpsertResult<U>>
+
+  /**
+   * Partially update existed record. Attempt to update non existing
+   * record will throw error. Absent properties keep the stored value,
+   * properties explicitly set to `undefined` will be unset.
+   *
+   * The merged record must satisfy model tox, for discriminated
+   * union models the matching variant is determined again.
+   * `updatedAt` and `updatedBy` are handled the same way as in `put`
+   **/
+  patch: (
+    id: U['id'],
+    input: PatchInput<U>,
+    session?: ClientSession,
+    userId?: string
+  ) => Promise<U>
+
+  /**
+   * Delete one or many records by id. In soft delete mode the records
+   * are marked with `deletedAt` (and `updatedBy` if `userId` is provided)
+   * and their ids stay reserved until `purge`
    **/
   remove: (
     idOrIds: U extends { id: infer V } ? V | V[] : never,
@@ -133,6 +329,25 @@ export type RepoModel<
   ) => Promise<undefined>
 
   /**
+   * Unmark soft deleted record. Attempt to restore not soft deleted
+   * record will throw error
+   **/
+  restore: (id: U['id'], session?: ClientSession, userId?: string) => Promise<U>
+
+  /**
+   * Delete record permanently including soft deleted one
+   * and release its id
+   **/
+  purge: (id: U['id'], session?: ClientSession) => Promise<undefined>
+
+  /**
+   * Stage removal of the record with all dependent records and
+   * detachment of optional references to it. The staged plan
+   * is executed by `confirm` in a single transaction, either
+   * the one of the provided session or a new one.
+   *
+   * `confirm` throws if the plan became stale since it was staged
+   *
    * @description [BETA] This method is currently in beta stage.
    */
   safeRemove: (
@@ -146,10 +361,275 @@ export type RepoModel<
   }>
 }
 
-export type InitRepo<T extends Record<string, RepoTox>> = {
-  [k in keyof T]: RepoModel<T[k]>
+export type RepoModelOptions<T extends RepoTox = RepoTox> = {
+  /**
+   * Use `deletedAt` property instead of record deletion.
+   * Soft deleted records are excluded from `get` results
+   * unless `withDeleted` option is provided
+   **/
+  softDelete?: boolean
+
+  /**
+   * Foreign key `safeRemove` policy by field key,
+   * nested foreign key is defined by its field path
+   **/
+  onDelete?: Partial<Record<FieldKeyPath<Infer<T>>, OnDeletePolicy>>
+
+  /**
+   * User-defined indexes ensured in addition
+   * to unique `id` and foreign key indexes
+   **/
+  indexes?: Array<IndexDefinition<Infer<T>>>
+
+  /**
+   * Unique field combinations besides `id`, optionally scoped
+   * to the discriminated union variant. Records which do not
+   * have all the fields are not constrained
+   **/
+  unique?: Array<UniqueConstraint<Infer<T>>>
+
+  /**
+   * Id generation strategy of `post` input without `id`
+   **/
+  generateId?: IdGenerator
+
+  /**
+   * Number field used for optimistic concurrency control. The
+   * version of `put` and `patch` input must match the stored one.
+   * The `updatedAt` field could be used as the version as well
+   **/
+  version?: KeysOfUnion<Infer<T>>
+
+  /**
+   * Record each write of the model records to the audit trail
+   **/
+  audit?: boolean
+
+  /**
+   * Model lifecycle hooks, error thrown by `before`
+   * hook aborts the operation
+   **/
+  hooks?: ModelHooks<Infer<T>>
+}
+
+export type HookContext = {
+  brand: string
+  session?: ClientSession
+  userId?: string
+}
+
+type HookResult<T> = void | T | Promise<void | T>
+
+/**
+ * The `before` hooks run prior to the input validation, the input
+ * could be changed in place or replaced by the returned one. The
+ * `after` hooks get the written records. Writes of `safeRemove`
+ * are done by `put` and `remove` so the hooks fire for each of
+ * the updated and removed records
+ **/
+export type ModelHooks<T = Record<string, unknown>> = {
+  beforePost?: (input: T, context: HookContext) => HookResult<T>
+  afterPost?: (record: T, context: HookContext) => HookResult<void>
+  beforePut?: (input: T, context: HookContext) => HookResult<T>
+  afterPut?: (record: T, context: HookContext) => HookResult<void>
+  beforeRemove?: (record: T, context: HookContext) => HookResult<void>
+  afterRemove?: (record: T, context: HookContext) => HookResult<void>
+  afterGet?: (records: T[], context: HookContext) => HookResult<void>
+}
+
+export type IdGenerator =
+  | 'uuidv4'
+  | 'uuidv7'
+  | 'ulid'
+  | 'nanoid'
+  | (() => string)
+
+export type UniqueConstraint<T = Record<string, unknown>> = {
+  fields: Array<KeysOfUnion<T>>
+  variant?: Partial<Record<KeysOfUnion<T>, string | number | boolean>>
+}
+
+export type IndexDefinition<T = Record<string, unknown>> = {
+  key: Partial<Record<KeysOfUnion<T>, 1 | -1 | 'text'>>
+  name?: string
+  unique?: boolean
+  sparse?: boolean
+  expireAfterSeconds?: number
+  partialFilterExpression?: Document
+}
+
+/**
+ * Difference between the expected and the existing
+ * indexes of the collection by index name
+ **/
+export type IndexesDrift = {
+  missing: string[]
+  changed: string[]
+  extraneous: string[]
+}
+
+export type SyncIndexesReport = Record<string, IndexesDrift>
+
+export type InitRepoOptions<T extends Record<string, RepoTox>> = {
+  models?: { [K in keyof T]?: RepoModelOptions<T[K]> }
+
+  /**
+   * Errors of the event listeners are not propagated to the writes
+   **/
+  onListenerError?: (error: unknown, event: RepoEvent) => void
+}
+
+export type RepoEventType = 'created' | 'updated' | 'removed'
+
+/**
+ * Audit trail entry keeps the full snapshot of the record after
+ * the write, removal has no snapshot. Writes of one `safeRemove`
+ * share the correlation id
+ **/
+export type AuditEntry<T = Record<string, unknown>> = {
+  brand: string
+  id: string
+  operation: RepoEventType
+  timestamp: number
+  userId?: string
+  sessionId?: string
+  correlationId?: string
+  snapshot?: T
+}
+
+/**
+ * Soft delete and restore of the record are reported as
+ * `removed` and `created`. Back-reference synchronization
+ * of the mirror arrays is not reported
+ **/
+export type RepoEvent<T = Record<string, unknown>> = {
+  type: RepoEventType
+  brand: string
+  id: string
+  before?: T
+  after?: T
+  userId?: string
+}
+
+export type RepoEventListener<T = Record<string, unknown>> = (
+  event: RepoEvent<T>
+) => void | Promise<void>
+
+export type WatchOptions = {
+  /* Watched models, all by default */
+  brands?: string[]
+
+  /**
+   * Requires MongoDB 6.0 collections with `changeStreamPreAndPostImages`,
+   * without it hard removals are not observed and the `before`
+   * snapshots of the updates are absent
+   **/
+  fullDocumentBeforeChange?: 'whenAvailable' | 'required'
+  onError?: (error: unknown) => void
+}
+
+export type RepoWatcher = {
+  close: () => Promise<void>
+}
+
+export type Migration<R = InitRepo<Record<string, RepoTox>>> = {
+  id: string
+  up: (repo: R) => Promise<void>
+  down?: (repo: R) => Promise<void>
+}
+
+export type MigrationStatus = {
+  id: string
+  /* Absent for pending migration */
+  appliedAt?: number
+}
+
+/**
+ * Module of `repotox` CLI config, `repotox.config.ts`
+ * of the working directory by default
+ **/
+export type RepotoxConfig = {
+  connect: () => Promise<{
+    mongoClient: MongoClient
+    dbName: string
+    repo: Record<string, unknown>
+  }>
+  migrationsDir: string
+}
+
+export type NonConformingRecord = {
+  brand: string
+  id: string | number
+  issues: InvalidSubject[]
+}
+
+/**
+ * Integrity issues of the stored records. The `fixed` flag
+ * is set only by the `fix` option of `validateDatabase`
+ **/
+export type ValidationReport = {
+  nonConforming: NonConformingRecord[]
+  danglingReferences: Array<{
+    brand: string
+    id: string | number
+    field: string
+    referenceId: string | number
+  }>
+  mirrorMismatches: Array<{
+    brand: string
+    id: string | number
+    field: string
+    targetBrand: string
+    targetId: string | number
+    targetField: string
+    fixed: boolean
+  }>
+  missingUuids: Array<{ brand: string; id: string | number; fixed: boolean }>
+  orphanUuids: Array<{ id: string | number; fixed: boolean }>
+}
+
+type HasIdGenerator<O, K> = O extends { models?: infer M }
+  ? K extends keyof M
+    ? NonNullable<M[K]> extends { generateId: IdGenerator }
+      ? true
+      : false
+    : false
+  : false
+
+export type InitRepo<
+  T extends Record<string, RepoTox>,
+  O extends InitRepoOptions<T> = {},
+> = {
+  [k in keyof T]: RepoModel<T[k], Infer<T[k]>, T, HasIdGenerator<O, k>>
 } & {
-  _wrap: (session?: ClientSession, userId?: string) => InitRepo<T>
+  _wrap: (session?: ClientSession, userId?: string) => InitRepo<T, O>
+
+  /**
+   * Compare expected indexes with the existing ones. Missing indexes
+   * are created on initialization, with `apply` option changed indexes
+   * are dropped and created again. Extraneous indexes are only
+   * reported unless `dropExtraneous` option is set as well
+   **/
+  _syncIndexes: (options?: {
+    apply?: boolean
+    dropExtraneous?: boolean
+  }) => Promise<SyncIndexesReport>
+
+  /**
+   * Deliver the events from MongoDB change stream, so the writes of
+   * other processes are observed too. Until closed it replaces the
+   * local events of the watched models, each write is delivered once
+   **/
+  _watch: (options?: WatchOptions) => Promise<RepoWatcher>
+
+  /**
+   * Run the function in a transaction of the provided session or
+   * a new one. Events of the writes are delivered after the commit
+   **/
+  _withTransaction: <R>(
+    fn: (session: ClientSession) => Promise<R>,
+    session?: ClientSession
+  ) => Promise<R>
 }
 
 /* mongodb queries */
@@ -209,15 +689,72 @@ type FieldLevel<T> = T extends number
         ? T | Logical<ArrayQuery<T>>
         : T
 
+/**
+ * Nested object or array of objects element of the field value
+ **/
+type SubDocument<V> =
+  NonNullable<V> extends Array<infer E>
+    ? SubDocument<E>
+    : NonNullable<V> extends string | number | boolean
+      ? never
+      : NonNullable<V> extends Record<string, unknown>
+        ? NonNullable<V>
+        : never
+
+/**
+ * Dot-notation paths of the nested fields: `address.city`, `items.productId`
+ **/
+type DotPath<T> = T extends unknown
+  ? {
+      [K in keyof T & string]: [SubDocument<T[K]>] extends [never]
+        ? never
+        : `${K}.${KeysOfUnion<SubDocument<T[K]>> | DotPath<SubDocument<T[K]>>}`
+    }[keyof T & string]
+  : never
+
+type DotPathValue<T, P> = T extends unknown
+  ? P extends `${infer K}.${infer R}`
+    ? K extends keyof T
+      ? DotPathValue<SubDocument<T[K]>, R>
+      : undefined
+    : P extends keyof T
+      ? T[P]
+      : undefined
+  : never
+
+/**
+ * Field keys including the nested field paths, array of objects
+ * is marked by brackets: `address.cityId`, `items[].productId`
+ **/
+export type FieldKeyPath<T> = T extends unknown
+  ? {
+      [K in keyof T & string]:
+        | K
+        | ([SubDocument<T[K]>] extends [never]
+            ? never
+            : `${K}${NonNullable<T[K]> extends unknown[] ? '[]' : ''}.${FieldKeyPath<SubDocument<T[K]>>}`)
+    }[keyof T & string]
+  : never
+
+/**
+ * Nested fields are matched by the dot-notation paths, the path
+ * through array of objects matches if any of the elements does
+ **/
 export type MongoFilter<T> = Logical<
-  Partial<{
-    [K in keyof T]: FieldLevel<T[K]>
-  }>
+  Partial<
+    {
+      [K in keyof T]: FieldLevel<T[K]>
+    } & {
+      [P in DotPath<T>]: FieldLevel<DotPathValue<T, P>>
+    }
+  >
 >
 
+export type KeysOfUnion<T> = T extends unknown
+  ? Extract<keyof T, string>
+  : never
+
 /**
- * TODO: support sorting
- *
  * Sorting
  *
  * | Field Type | Ascending Order (`1`) |
@@ -240,3 +777,127 @@ export type MongoFilter<T> = Logical<
  * | Boolean    | `true` then `false`;
  *               missing values last     |
  */
+export type SortOptions<T> = Partial<Record<KeysOfUnion<T>, 1 | -1>>
+
+/**
+ * Inclusion projection, `id` is always included
+ **/
+export type ProjectionOptions<T> = Partial<Record<KeysOfUnion<T>, 1>>
+
+export type Projected<T, P> =
+  P extends ProjectionOptions<T>
+    ? T extends unknown
+      ? Pick<T, Extract<keyof T, keyof P | 'id'>>
+      : never
+    : T
+
+/**
+ * Name of the model referenced by `idFor` branded foreign key
+ **/
+export type ReferencedModelName<V> =
+  NonNullable<V> extends Array<infer E>
+    ? ReferencedModelName<E>
+    : NonNullable<V> extends {
+          [K in `__${typeof FOREIGN_KEY_BRAND_TYPE}`]: infer B
+        }
+      ? Extract<B, string>
+      : never
+
+export type PopulateKey<T> = T extends unknown
+  ? {
+      [K in keyof T]-?: [ReferencedModelName<T[K]>] extends [never] ? never : K
+    }[keyof T] &
+      string
+  : never
+
+type ReferencedModel<V, M extends Record<string, RepoTox>> =
+  ReferencedModelName<V> extends infer N
+    ? N extends keyof M
+      ? Infer<M[N]>
+      : never
+    : never
+
+/**
+ * Foreign keys to populate, nested population is
+ * defined by object with the foreign key as a key:
+ * `['userId', { postIds: ['commentIds'] }]`
+ **/
+export type PopulateOptions<T, M extends Record<string, RepoTox>> = Array<
+  | PopulateKey<T>
+  | {
+      [K in PopulateKey<T>]?: PopulateOptions<
+        ReferencedModel<T extends unknown ? T[K & keyof T] : never, M>,
+        M
+      >
+    }
+>
+
+export type AnyPopulateOptions = ReadonlyArray<
+  string | { [key: string]: AnyPopulateOptions | undefined }
+>
+
+type PopulatedKey<E> = E extends string ? E : keyof E
+
+type NestedPopulate<E, K> = E extends string
+  ? never
+  : E extends Record<K & PropertyKey, infer N>
+    ? N
+    : never
+
+type PopulatedValue<V, M extends Record<string, RepoTox>, N> =
+  V extends Array<infer I>
+    ? Array<PopulatedValue<I, M, N>>
+    : V extends undefined | null
+      ? V
+      : Populated<ReferencedModel<V, M>, M, [N] extends [never] ? undefined : N>
+
+/**
+ * Records with the populated foreign keys replaced
+ * by the referenced records, unresolved references
+ * are omitted
+ **/
+export type Populated<T, M extends Record<string, RepoTox>, Q> =
+  Q extends ReadonlyArray<infer E>
+    ? T extends unknown
+      ? {
+          [K in keyof T]: K extends PopulatedKey<E>
+            ? PopulatedValue<T[K], M, NestedPopulate<E, K>>
+            : T[K]
+        }
+      : never
+    : T
+
+export type GetOptions<
+  T,
+  P extends ProjectionOptions<T> | undefined = ProjectionOptions<T> | undefined,
+  Q extends AnyPopulateOptions | undefined = AnyPopulateOptions | undefined,
+> = {
+  session?: ClientSession
+  userId?: string
+  sort?: SortOptions<T>
+  skip?: number
+  limit?: number
+  projection?: P
+  populate?: Q
+  withDeleted?: boolean
+}
+
+export type PaginateOptions<T> = {
+  filter?: MongoFilter<T>
+  sortBy?: KeysOfUnion<T>
+  order?: 1 | -1
+  after?: string
+  first: number
+  session?: ClientSession
+  userId?: string
+}
+
+export type PageCursor = [value: string | number | boolean | null, id: unknown]
+
+export type Page<T> = {
+  items: T[]
+  pageInfo: {
+    endCursor?: string
+    hasNextPage: boolean
+  }
+}
@@ -1,38 +1,86 @@
-import { ERROR, FOREIGN_KEY_BRAND_TYPE, IGNORE_RELATION } from './constants'
-
-import type { ClientSession } from 'mongodb'
-import type { RepoModel, RepoTox, InitRepo, FieldRelation } from './types'
+import { randomBytes, randomUUID } from 'crypto'
+import {
+  ERROR,
+  ERROR_CODE,
+  FOREIGN_KEY_BRAND_TYPE,
+  IGNORE_RELATION,
+} from './constants'
+import { InvalidCursorError, SchemaDefinitionError } from './errors'
+
+import type {
+  AnyBulkWriteOperation,
+  ClientSession,
+  Document,
+  IndexDescription,
+  IndexDirection,
+  MongoClient,
+  UpdateFilter,
+} from 'mongodb'
+import type { EventBus } from './events'
+import type {
+  BackReferenceUpdate,
+  BaseRepoModelSchema,
+  FieldRelation,
+  FieldRelationUnilateral,
+  GetOptions,
+  IdGenerator,
+  IndexDefinition,
+  IndexesDrift,
+  InitRepo,
+  MutationReport,
+  NestedObjectSchema,
+  OnDeletePolicy,
+  PageCursor,
+  PaginateOptions,
+  RepoModel,
+  RepoTox,
+  SafeRemovePlan,
+  UniqueConstraint,
+  WriteManyOptions,
+} from './types'
 
 export function getCollectionForeignKeyRelations(
   modelToxByCollectionName: Record<string, RepoTox>,
-  collectionName: string
+  collectionName: string,
+  onDeleteByFieldKey: Partial<Record<string, OnDeletePolicy>> = {}
 ) {
   const tox = modelToxByCollectionName[collectionName] as RepoTox
 
-  if (tox.__schema.type === 'object') {
-    if (tox.__schema.of.id === undefined) {
-      throw new Error(ERROR.noIdField(collectionName))
+  const schemaUnion =
+    tox.__schema.type === 'union' ? tox.__schema.of : [tox.__schema]
+
+  for (const { of: schemaOf } of schemaUnion) {
+    const idSchema = schemaOf.id
+
+    if (idSchema === undefined) {
+      throw new SchemaDefinitionError(
+        ERROR_CODE.noIdField,
+        ERROR.noIdField(collectionName),
+        collectionName
+      )
     }
 
-    // TODO: handle "invalidModelIdBrand" repo error
-  } else {
-    for (const sub of tox.__schema.of) {
-      if (sub.of.id === undefined) {
-        throw new Error(ERROR.noIdField(collectionName))
-      }
+    if ('brand' in idSchema && idSchema.brand) {
+      const [brandType, brand] = idSchema.brand
 
-      // TODO: handle "invalidModelIdBrand" repo error
+      if (brandType === FOREIGN_KEY_BRAND_TYPE && brand !== collectionName) {
+        throw new SchemaDefinitionError(
+          ERROR_CODE.invalidIdBrand,
+          ERROR.invalidIdBrand(collectionName, String(brand)),
+          collectionName,
+          'id'
+        )
+      }
     }
   }
 
-  const schemaUnion =
-    tox.__schema.type === 'union' ? tox.__schema.of : [tox.__schema]
-
   const schemaKeys = new Set<string>()
 
-  const relations: FieldRelation[] = []
+  const relations: RelationDraft[] = []
 
   for (const { of: schemaOf } of schemaUnion) {
+    const variantRelationsStart = relations.length
+
     for (const sourceFieldKey in schemaOf) {
       if (sourceFieldKey === 'id') {
         continue
@@ -50,34 +98,9 @@ export function getCollectionForeignKeyRelations(
 
       const brandsPool: string[] = []
 
-      const extractForeignKeyBrand = (schema: {
-        brand?: readonly [string, unknown]
-        type: string
-      }): string | undefined => {
-        if ('brand' in schema && schema.brand) {
-          const [brandType, brand] = schema.brand
-
-          if (brandType === FOREIGN_KEY_BRAND_TYPE) {
-            if (schema.type !== 'string') {
-              // TODO: add unit test and proper "ERROR" message
-              throw new Error(
-                `invalidForeignKeyBrandTypeUsage of :${collectionName}: ${sourceFieldKey}`
-              )
-            }
-
-            if (typeof brand !== 'string') {
-              throw Error('Brand second tuple member is expected to be string')
-            }
-
-            return brand
-          }
-        }
-
-        return undefined
-      }
+      const extractForeignKeyBrand = (schema: ForeignKeyCandidateSchema) =>
+        getForeignKeyBrand(collectionName, sourceFieldKey, schema)
 
-      const targetToOneKey = `${collectionName}Id`
-      const targetToManyKey = `${collectionName}Ids`
       const sourceKeyOptional = propertySchema.optional === true
 
       switch (propertySchema.type) {
@@ -93,126 +116,46 @@ export function getCollectionForeignKeyRelations(
 
           brandsPool.push(targetCollectionName)
 
-          const targetSchema =
-            modelToxByCollectionName[targetCollectionName]?.__schema
-
-          if (targetSchema?.type !== 'object') {
-            // FIXME: support unions at target schema
-            break
-          }
-
-          if (
-            targetToOneKey in targetSchema.of === false &&
-            targetToManyKey in targetSchema.of === false
-          ) {
-            // unilateral case
-            //
-
-            relations.push({
-              dependencyKind: sourceKeyOptional
-                ? 'primary-unilateral'
-                : 'secondary-unilateral',
-              cardinalityType: 'one',
-              sourceCollectionName: collectionName,
-              sourceCollectionFieldKey: sourceFieldKey,
-              targetCollectionName: targetCollectionName,
-            })
-            break
-          }
-
-          // bilateral case
-          //
-
-          if (targetToOneKey in targetSchema.of) {
-            const targetPropertySchema = targetSchema.of[targetToOneKey]
-            const targetKeyOptional = targetPropertySchema?.optional === true
-
-            if (sourceKeyOptional && targetKeyOptional) {
-              relations.push({
-                dependencyKind: 'primary-to-primary',
-                cardinalityType: 'one-to-one',
-                sourceCollectionName: collectionName,
-                sourceCollectionFieldKey: sourceFieldKey,
-                targetCollectionName: targetCollectionName,
-                targetCollectionFieldKey: targetToOneKey,
-              })
-            } else if (sourceKeyOptional && targetKeyOptional === false) {
-              relations.push({
-                dependencyKind: 'primary-to-secondary',
-                cardinalityType: 'one-to-one',
-                sourceCollectionName: collectionName,
-                sourceCollectionFieldKey: sourceFieldKey,
-                targetCollectionName: targetCollectionName,
-                targetCollectionFieldKey: targetToOneKey,
-              })
-            } else if (sourceKeyOptional === false && targetKeyOptional) {
-              relations.push({
-                dependencyKind: 'secondary-to-primary',
-                cardinalityType: 'one-to-one',
-                sourceCollectionName: collectionName,
-                sourceCollectionFieldKey: sourceFieldKey,
-                targetCollectionName: targetCollectionName,
-                targetCollectionFieldKey: targetToOneKey,
-              })
-            } else {
-              throw Error(
-                ERROR.secondaryToSecondaryRelationIsForbidden(
-                  collectionName,
-                  sourceFieldKey
-                )
-              )
-            }
-
-            break
-          }
+          relations.push(
+            ...getTargetRelations(
+              modelToxByCollectionName,
+              collectionName,
+              sourceFieldKey,
+              targetCollectionName,
+              sourceKeyOptional,
+              false
+            )
+          )
+          break
+        }
 
-          if (targetToManyKey in targetSchema.of) {
-            const targetPropertySchema = targetSchema.of[targetToManyKey]
-            const targetKeyOptional = targetPropertySchema?.optional === true
+        case 'object': {
+          relations.push(
+            ...getNestedRelations(
+              modelToxByCollectionName,
+              collectionName,
+              sourceFieldKey,
+              propertySchema,
+              false
+            )
+          )
+          break
+        }
 
-            if (sourceKeyOptional && targetKeyOptional) {
-              relations.push({
-                dependencyKind: 'primary-to-primary',
-                cardinalityType: 'one-to-many',
-                sourceCollectionName: collectionName,
-                sourceCollectionFieldKey: sourceFieldKey,
-                targetCollectionName: targetCollectionName,
-                targetCollectionFieldKey: targetToManyKey,
-              })
-            } else if (sourceKeyOptional && targetKeyOptional === false) {
-              relations.push({
-                dependencyKind: 'primary-to-secondary',
-                cardinalityType: 'one-to-many',
-                sourceCollectionName: collectionName,
-                sourceCollectionFieldKey: sourceFieldKey,
-                targetCollectionName: targetCollectionName,
-                targetCollectionFieldKey: targetToManyKey,
-              })
-            } else if (sourceKeyOptional === false && targetKeyOptional) {
-              relations.push({
-                dependencyKind: 'secondary-to-primary',
-                cardinalityType: 'one-to-many',
-                sourceCollectionName: collectionName,
-                sourceCollectionFieldKey: sourceFieldKey,
-                targetCollectionName: targetCollectionName,
-                targetCollectionFieldKey: targetToManyKey,
-              })
-            } else {
-              throw Error(
-                ERROR.secondaryToSecondaryRelationIsForbidden(
-                  collectionName,
-                  sourceFieldKey
-                )
+        case 'array': {
+          if (propertySchema.of.type === 'object') {
+            relations.push(
+              ...getNestedRelations(
+                modelToxByCollectionName,
+                collectionName,
+                `${sourceFieldKey}[]`,
+                propertySchema.of,
+                true
               )
-            }
-
+            )
             break
           }
 
-          break
-        }
-
-        case 'array': {
           if (propertySchema.of.type === 'union') {
             for (const arrUnionPropSchema of propertySchema.of.of) {
               const relatedBrand = extractForeignKeyBrand(arrUnionPropSchema)
@@ -222,133 +165,39 @@ export function getCollectionForeignKeyRelations(
               }
             }
 
-            break
-          }
-
-          const targetCollectionName = extractForeignKeyBrand(propertySchema.of)
-
-          if (targetCollectionName === undefined) {
-            break
-          }
-
-          brandsPool.push(targetCollectionName)
-
-          const targetSchema =
-            modelToxByCollectionName[targetCollectionName]?.__schema
-
-          if (targetSchema?.type !== 'object') {
-            // FIXME: support unions at target schema
-            break
-          }
-
-          if (
-            targetToOneKey in targetSchema.of === false &&
-            targetToManyKey in targetSchema.of === false
-          ) {
-            // unilateral case
-            //
-
-            relations.push({
-              dependencyKind: sourceKeyOptional
-                ? 'primary-unilateral'
-                : 'secondary-unilateral',
-              cardinalityType: 'many',
-              sourceCollectionName: collectionName,
-              sourceCollectionFieldKey: sourceFieldKey,
-              targetCollectionName: targetCollectionName,
-            })
-            break
-          }
-
-          // bilateral case
-          //
-
-          if (targetToOneKey in targetSchema.of) {
-            const targetPropertySchema = targetSchema.of[targetToOneKey]
-            const targetKeyOptional = targetPropertySchema?.optional === true
-
-            if (sourceKeyOptional && targetKeyOptional) {
-              relations.push({
-                dependencyKind: 'primary-to-primary',
-                cardinalityType: 'many-to-one',
-                sourceCollectionName: collectionName,
-                sourceCollectionFieldKey: sourceFieldKey,
-                targetCollectionName: targetCollectionName,
-                targetCollectionFieldKey: targetToOneKey,
-              })
-            } else if (sourceKeyOptional && targetKeyOptional === false) {
-              relations.push({
-                dependencyKind: 'primary-to-secondary',
-                cardinalityType: 'many-to-one',
-                sourceCollectionName: collectionName,
-                sourceCollectionFieldKey: sourceFieldKey,
-                targetCollectionName: targetCollectionName,
-                targetCollectionFieldKey: targetToOneKey,
-              })
-            } else if (sourceKeyOptional === false && targetKeyOptional) {
+            if (brandsPool.length) {
               relations.push({
-                dependencyKind: 'secondary-to-primary',
-                cardinalityType: 'many-to-one',
+                dependencyKind: sourceKeyOptional
+                  ? 'primary-unilateral'
+                  : 'secondary-unilateral',
+                cardinalityType: 'many',
                 sourceCollectionName: collectionName,
                 sourceCollectionFieldKey: sourceFieldKey,
-                targetCollectionName: targetCollectionName,
-                targetCollectionFieldKey: targetToOneKey,
+                targetCollectionName: [...brandsPool],
               })
-            } else {
-              throw Error(
-                ERROR.secondaryToSecondaryRelationIsForbidden(
-                  collectionName,
-                  sourceFieldKey
-                )
-              )
             }
 
             break
           }
 
-          if (targetToManyKey in targetSchema.of) {
-            const targetPropertySchema = targetSchema.of[targetToManyKey]
-            const targetKeyOptional = targetPropertySchema?.optional === true
-
-            if (sourceKeyOptional && targetKeyOptional) {
-              relations.push({
-                dependencyKind: 'primary-to-primary',
-                cardinalityType: 'many-to-many',
-                sourceCollectionName: collectionName,
-                sourceCollectionFieldKey: sourceFieldKey,
-                targetCollectionName: targetCollectionName,
-                targetCollectionFieldKey: targetToManyKey,
-              })
-            } else if (sourceKeyOptional && targetKeyOptional === false) {
-              relations.push({
-                dependencyKind: 'primary-to-secondary',
-                cardinalityType: 'many-to-many',
-                sourceCollectionName: collectionName,
-                sourceCollectionFieldKey: sourceFieldKey,
-                targetCollectionName: targetCollectionName,
-                targetCollectionFieldKey: targetToManyKey,
-              })
-            } else if (sourceKeyOptional === false && targetKeyOptional) {
-              relations.push({
-                dependencyKind: 'secondary-to-primary',
-                cardinalityType: 'many-to-many',
-                sourceCollectionName: collectionName,
-                sourceCollectionFieldKey: sourceFieldKey,
-                targetCollectionName: targetCollectionName,
-                targetCollectionFieldKey: targetToManyKey,
-              })
-            } else {
-              throw Error(
-                ERROR.secondaryToSecondaryRelationIsForbidden(
-                  collectionName,
-                  sourceFieldKey
-                )
-              )
-            }
+          const targetCollectionName = extractForeignKeyBrand(propertySchema.of)
 
+          if (targetCollectionName === undefined) {
             break
           }
 
+          brandsPool.push(targetCollectionName)
+
+          relations.push(
+            ...getTargetRelations(
+              modelToxByCollectionName,
+              collectionName,
+              sourceFieldKey,
+              targetCollectionName,
+              sourceKeyOptional,
+              true
+            )
+          )
           break
         }
 
@@ -357,19 +206,21 @@ export function getCollectionForeignKeyRelations(
             const relatedBrand = extractForeignKeyBrand(member)
 
             if (relatedBrand) {
-              relations.push({
-                dependencyKind: sourceKeyOptional
-                  ? 'primary-unilateral'
-                  : 'secondary-unilateral',
-                cardinalityType: 'one',
-                sourceCollectionName: collectionName,
-                sourceCollectionFieldKey: sourceFieldKey,
-                targetCollectionName: relatedBrand,
-              })
-
               brandsPool.push(relatedBrand)
             }
           }
+
+          if (brandsPool.length) {
+            relations.push({
+              dependencyKind: sourceKeyOptional
+                ? 'primary-unilateral'
+                : 'secondary-unilateral',
+              cardinalityType: 'one',
+              sourceCollectionName: collectionName,
+              sourceCollectionFieldKey: sourceFieldKey,
+              targetCollectionName: [...brandsPool],
+            })
+          }
           break
         }
 
@@ -377,28 +228,28 @@ export function getCollectionForeignKeyRelations(
           const x: never = propertySchema
           // @ts-expect-error exhausted
           const type = x?.type
-          throw new Error(
-            ERROR.invalidPropertyType(collectionName, sourceFieldKey, type)
+          throw new SchemaDefinitionError(
+            ERROR_CODE.invalidPropertyType,
+            ERROR.invalidPropertyType(collectionName, sourceFieldKey, type),
+            collectionName,
+            sourceFieldKey
           )
         }
       }
 
       for (const brand of brandsPool) {
-        if (sourceFieldKey === 'id') {
-          if (collectionName !== brand) {
-            // TODO: add unit test and proper "ERROR" message
-            throw new Error('invalidIdBrand')
-          }
-
-          continue
-        }
-
         const relatedModelTox = modelToxByCollectionName[brand]
 
         if (relatedModelTox === undefined) {
-          // TODO: add unit test and proper "ERROR" message
-          throw new Error(
-            `invalidBrandReferenceNoSuchModel of "${collectionName}: ${sourceFieldKey}"`
+          throw new SchemaDefinitionError(
+            ERROR_CODE.invalidBrandReferenceNoSuchModel,
+            ERROR.invalidBrandReferenceNoSuchModel(
+              collectionName,
+              sourceFieldKey,
+              brand
+            ),
+            collectionName,
+            sourceFieldKey
           )
         }
 
@@ -407,9 +258,11 @@ export function getCollectionForeignKeyRelations(
         }
 
         if (brand === collectionName) {
-          // TODO: add unit test and proper "ERROR" message
-          throw new Error(
-            `forbiddenRecursiveRelation of "${collectionName}: ${sourceFieldKey}"`
+          throw new SchemaDefinitionError(
+            ERROR_CODE.forbiddenRecursiveRelation,
+            ERROR.forbiddenRecursiveRelation(collectionName, sourceFieldKey),
+            collectionName,
+            sourceFieldKey
           )
         }
 
@@ -421,27 +274,353 @@ export function getCollectionForeignKeyRelations(
         const oneToOneKey = `${collectionName}Id`
         const oneToManyKey = `${collectionName}Ids`
 
-        for (const relatedSchemaOf of relatedSchemaUnion) {
-          if (
-            oneToOneKey in relatedSchemaOf === false &&
-            oneToManyKey in relatedSchemaOf === false
-          ) {
-            throw new Error(
-              ERROR.noUserDefinedRelation(brand, collectionName, sourceFieldKey)
-            )
-          }
+        /* Union variants without the mirror key are not referenced */
+        const isMirrored = relatedSchemaUnion.some(
+          (x) => oneToOneKey in x || oneToManyKey in x
+        )
+
+        if (isMirrored === false) {
+          throw new SchemaDefinitionError(
+            ERROR_CODE.noUserDefinedRelation,
+            ERROR.noUserDefinedRelation(brand, collectionName, sourceFieldKey),
+            collectionName,
+            sourceFieldKey
+          )
         }
       }
     }
+
+    if (tox.__schema.type === 'union') {
+      const sourceVariant = getVariantLiterals(schemaOf)
+
+      for (const relation of relations.slice(variantRelationsStart)) {
+        relation.sourceVariant = sourceVariant
+      }
+    }
+  }
+
+  for (const fieldKey in onDeleteByFieldKey) {
+    if (relations.some((x) => x.sourceCollectionFieldKey === fieldKey)) {
+      continue
+    }
+
+    throw new SchemaDefinitionError(
+      ERROR_CODE.invalidOnDeleteKey,
+      ERROR.invalidOnDeleteKey(collectionName, fieldKey),
+      collectionName,
+      fieldKey
+    )
   }
 
   return {
     tox,
     schemaKeys,
-    relations,
+    relations: relations.map((relation): FieldRelation => {
+      const fieldKey = relation.sourceCollectionFieldKey
+      const isRequired = relation.dependencyKind.startsWith('secondary-')
+      const isMany = relation.cardinalityType.startsWith('many')
+      const onDelete =
+        onDeleteByFieldKey[fieldKey] ?? (isRequired ? 'cascade' : 'setNull')
+
+      if (onDelete === 'setNull' && isRequired && isMany === false) {
+        throw new SchemaDefinitionError(
+          ERROR_CODE.invalidSetNullOnDelete,
+          ERROR.invalidSetNullOnDelete(collectionName, fieldKey),
+          collectionName,
+          fieldKey
+        )
+      }
+
+      return { ...relation, onDelete }
+    }),
+  }
+}
+
+type RelationDraft = DistributiveOmit<FieldRelation, 'onDelete'>
+
+/**
+ * Relations of the foreign key to the target model, bilateral one is
+ * made per target variant which has `${collectionName}Id` or
+ * `${collectionName}Ids` mirror key. Target model without
+ * the mirror key is referenced by unilateral relation
+ **/
+function getTargetRelations(
+  modelToxByCollectionName: Record<string, RepoTox>,
+  collectionName: string,
+  sourceFieldKey: string,
+  targetCollectionName: string,
+  isSourceOptional: boolean,
+  isSourceMany: boolean
+): RelationDraft[] {
+  const targetSchema = modelToxByCollectionName[targetCollectionName]?.__schema
+
+  if (targetSchema === undefined) {
+    return []
+  }
+
+  const targetToOneKey = `${collectionName}Id`
+  const targetToManyKey = `${collectionName}Ids`
+
+  const variants =
+    targetSchema.type === 'union'
+      ? targetSchema.of.map((x) => ({
+          schemaOf: x.of,
+          targetVariant: getVariantLiterals(x.of),
+        }))
+      : [{ schemaOf: targetSchema.of, targetVariant: undefined }]
+
+  const result: RelationDraft[] = []
+
+  for (const { schemaOf, targetVariant } of variants) {
+    const targetCollectionFieldKey =
+      targetToOneKey in schemaOf
+        ? targetToOneKey
+        : targetToManyKey in schemaOf
+          ? targetToManyKey
+          : undefined
+
+    if (targetCollectionFieldKey === undefined) {
+      continue
+    }
+
+    const isTargetOptional =
+      schemaOf[targetCollectionFieldKey]?.optional === true
+    const isTargetMany = targetCollectionFieldKey === targetToManyKey
+
+    if (isSourceOptional === false && isTargetOptional === false) {
+      throw new SchemaDefinitionError(
+        ERROR_CODE.secondaryToSecondaryRelationIsForbidden,
+        ERROR.secondaryToSecondaryRelationIsForbidden(
+          collectionName,
+          sourceFieldKey
+        ),
+        collectionName,
+        sourceFieldKey
+      )
+    }
+
+    result.push({
+      dependencyKind: isSourceOptional
+        ? isTargetOptional
+          ? 'primary-to-primary'
+          : 'primary-to-secondary'
+        : 'secondary-to-primary',
+      cardinalityType: `${isSourceMany ? 'many' : 'one'}-to-${isTargetMany ? 'many' : 'one'}`,
+      sourceCollectionName: collectionName,
+      sourceCollectionFieldKey: sourceFieldKey,
+      targetCollectionName,
+      targetCollectionFieldKey,
+      ...(targetVariant && { targetVariant }),
+    })
+  }
+
+  if (result.length) {
+    return result
+  }
+
+  return [
+    {
+      dependencyKind: isSourceOptional
+        ? 'primary-unilateral'
+        : 'secondary-unilateral',
+      cardinalityType: isSourceMany ? 'many' : 'one',
+      sourceCollectionName: collectionName,
+      sourceCollectionFieldKey: sourceFieldKey,
+      targetCollectionName,
+    },
+  ]
+}
+
+/**
+ * Required literal properties identify the discriminated union variant
+ **/
+function getVariantLiterals(schemaOf: BaseRepoModelSchema['of']) {
+  const result: Record<string, string | number | boolean> = {}
+
+  for (const key in schemaOf) {
+    const propertySchema = schemaOf[key]
+
+    if (
+      propertySchema?.type === 'literal' &&
+      propertySchema.optional !== true
+    ) {
+      result[key] = propertySchema.of
+    }
+  }
+
+  return result
+}
+
+/**
+ * Record belongs to the variant, any record
+ * belongs to the relation without variant
+ **/
+export function isRecordOfVariant(
+  record: Record<string, unknown>,
+  variant: Record<string, unknown> = {}
+) {
+  return Object.entries(variant).every(([key, value]) => record[key] === value)
+}
+
+type ForeignKeyCandidateSchema = {
+  brand?: readonly [string, unknown]
+  type: string
+}
+
+function getForeignKeyBrand(
+  collectionName: string,
+  fieldKey: string,
+  schema: ForeignKeyCandidateSchema
+): string | undefined {
+  if ('brand' in schema && schema.brand) {
+    const [brandType, brand] = schema.brand
+
+    if (brandType === FOREIGN_KEY_BRAND_TYPE) {
+      if (schema.type !== 'string') {
+        throw new SchemaDefinitionError(
+          ERROR_CODE.invalidForeignKeyBrandTypeUsage,
+          ERROR.invalidForeignKeyBrandTypeUsage(collectionName, fieldKey),
+          collectionName,
+          fieldKey
+        )
+      }
+
+      if (typeof brand !== 'string') {
+        throw new SchemaDefinitionError(
+          ERROR_CODE.invalidForeignKeyBrandValue,
+          ERROR.invalidForeignKeyBrandValue(collectionName, fieldKey),
+          collectionName,
+          fieldKey
+        )
+      }
+
+      return brand
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Foreign keys of the nested object are unilateral relations, the field
+ * key is the path: `address.cityId`, `items[].productId`. Reference
+ * through array of objects is `many`, so `setNull` pulls the element.
+ * Dependency is defined by the optionality of the key itself
+ **/
+function getNestedRelations(
+  modelToxByCollectionName: Record<string, RepoTox>,
+  collectionName: string,
+  path: string,
+  schema: NestedObjectSchema,
+  isInArray: boolean
+): Array<DistributiveOmit<FieldRelationUnilateral, 'onDelete'>> {
+  const result: Array<DistributiveOmit<FieldRelationUnilateral, 'onDelete'>> =
+    []
+
+  for (const key in schema.of) {
+    const propertySchema = schema.of[key]!
+    const fieldKey = `${path}.${key}`
+
+    if (propertySchema.type === 'object') {
+      result.push(
+        ...getNestedRelations(
+          modelToxByCollectionName,
+          collectionName,
+          fieldKey,
+          propertySchema,
+          isInArray
+        )
+      )
+      continue
+    }
+
+    if (
+      propertySchema.type === 'array' &&
+      propertySchema.of.type === 'object'
+    ) {
+      result.push(
+        ...getNestedRelations(
+          modelToxByCollectionName,
+          collectionName,
+          `${fieldKey}[]`,
+          propertySchema.of,
+          true
+        )
+      )
+      continue
+    }
+
+    const isArray = propertySchema.type === 'array'
+    const valueSchema = isArray ? propertySchema.of : propertySchema
+    const members: ForeignKeyCandidateSchema[] =
+      valueSchema.type === 'union' ? valueSchema.of : [valueSchema]
+    const brands: string[] = []
+
+    for (const member of members) {
+      const brand = getForeignKeyBrand(collectionName, fieldKey, member)
+
+      if (brand === undefined) {
+        continue
+      }
+
+      if (modelToxByCollectionName[brand] === undefined) {
+        throw new SchemaDefinitionError(
+          ERROR_CODE.invalidBrandReferenceNoSuchModel,
+          ERROR.invalidBrandReferenceNoSuchModel(
+            collectionName,
+            fieldKey,
+            brand
+          ),
+          collectionName,
+          fieldKey
+        )
+      }
+
+      if (
+        brand === collectionName &&
+        propertySchema.description !== IGNORE_RELATION
+      ) {
+        throw new SchemaDefinitionError(
+          ERROR_CODE.forbiddenRecursiveRelation,
+          ERROR.forbiddenRecursiveRelation(collectionName, fieldKey),
+          collectionName,
+          fieldKey
+        )
+      }
+
+      brands.push(brand)
+    }
+
+    const [brand] = brands
+
+    if (brand === undefined) {
+      continue
+    }
+
+    result.push({
+      dependencyKind:
+        propertySchema.optional === true
+          ? 'primary-unilateral'
+          : 'secondary-unilateral',
+      cardinalityType: isInArray || isArray ? 'many' : 'one',
+      sourceCollectionName: collectionName,
+      sourceCollectionFieldKey: fieldKey,
+      targetCollectionName: valueSchema.type === 'union' ? brands : brand,
+    })
   }
+
+  return result
+}
+
+type NamedIndexDescription = IndexDescription & {
+  key: Record<string, IndexDirection>
+  name: string
 }
 
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never
+
 /**
  * Stub each repo model method with predefined `session` and `userId`
  **/
@@ -453,16 +632,47 @@ export function getModifiedRepo<T extends InitRepo<Record<string, RepoTox>>>(
   const result = {} as T
 
   for (const key in repo) {
+    /* Repo level methods like `_wrap` are not bound to the session */
+    if (key.startsWith('_')) {
+      result[key] = repo[key]
+      continue
+    }
+
     const model = repo[key as keyof typeof repo] as RepoModel
     const updatedModel: Record<keyof typeof model, unknown> = {
       tox: model.tox,
       relations: model.relations,
+      softDelete: model.softDelete,
 
       mongo: (_session?: ClientSession, _userId?: string) =>
         model.mongo(_session || session, _userId || userId),
 
-      get: (filter: never, _session?: ClientSession) =>
-        model.get(filter, _session || session),
+      subscribe: model.subscribe,
+
+      history: (id: never, _session?: ClientSession) =>
+        model.history(id, _session || session),
+
+      asOf: (id: never, timestamp: number, _session?: ClientSession) =>
+        model.asOf(id, timestamp, _session || session),
+
+      get: (
+        filter: never,
+        _sessionOrOptions?: ClientSession | GetOptions<unknown>
+      ) => {
+        const options = getGetOptions(_sessionOrOptions)
+        return model.get(filter, {
+          ...options,
+          session: options.session || session,
+          userId: options.userId || userId,
+        } as never)
+      },
+
+      paginate: (options: PaginateOptions<unknown>) =>
+        model.paginate({
+          ...options,
+          session: options.session || session,
+          userId: options.userId || userId,
+        }),
 
       post: (value: never, _session?: ClientSession, _userId?: string) =>
         model.post(value, _session || session, _userId || userId),
@@ -470,9 +680,39 @@ export function getModifiedRepo<T extends InitRepo<Record<string, RepoTox>>>(
       put: (value: never, _session?: ClientSession, _userId?: string) =>
         model.put(value, _session || session, _userId || userId),
 
+      postMany: (values: never, options: WriteManyOptions = {}) =>
+        model.postMany(values, {
+          ...options,
+          session: options.session || session,
+          userId: options.userId || userId,
+        }),
+
+      putMany: (values: never, options: WriteManyOptions = {}) =>
+        model.putMany(values, {
+          ...options,
+          session: options.session || session,
+          userId: options.userId || userId,
+        }),
+
+      upsert: (value: never, _session?: ClientSession, _userId?: string) =>
+        model.upsert(value, _session || session, _userId || userId),
+
+      patch: (
+        id: never,
+        value: never,
+        _session?: ClientSession,
+        _userId?: string
+      ) => model.patch(id, value, _session || session, _userId || userId),
+
       remove: (value: never, _session?: ClientSession, _userId?: string) =>
         model.remove(value, _session || session, _userId || userId),
 
+      restore: (value: never, _session?: ClientSession, _userId?: string) =>
+        model.restore(value, _session || session, _userId || userId),
+
+      purge: (value: never, _session?: ClientSession) =>
+        model.purge(value, _session || session),
+
       safeRemove: (value: never, _session?: ClientSession, _userId?: string) =>
         model.safeRemove(value, _session || session, _userId || userId),
     }
@@ -484,13 +724,716 @@ export function getModifiedRepo<T extends InitRepo<Record<string, RepoTox>>>(
   return result
 }
 
+export function getIndexName(key: Record<string, unknown>) {
+  return Object.entries(key)
+    .map(([fieldKey, value]) => `${fieldKey}_${value}`)
+    .join('_')
+}
+
+/**
+ * Indexes expected for the model collection: unique `id`,
+ * foreign keys of the relations and user-defined ones
+ **/
+export function getModelIndexes(
+  relations: FieldRelation[],
+  indexes: IndexDefinition[] = []
+): NamedIndexDescription[] {
+  const result: NamedIndexDescription[] = [
+    { key: { id: 1 }, name: 'id_1', unique: true },
+  ]
+
+  for (const { sourceCollectionFieldKey } of relations) {
+    const key = { [getMongoPath(sourceCollectionFieldKey)]: 1 as const }
+    const name = getIndexName(key)
+
+    if (result.some((x) => x.name === name)) {
+      continue
+    }
+
+    result.push({ key, name })
+  }
+
+  for (const index of indexes) {
+    const key = index.key as Record<string, IndexDirection>
+    const name = index.name ?? getIndexName(key)
+
+    result.push({ ...index, key, name })
+  }
+
+  return result
+}
+
+const BSON_TYPE_BY_SCHEMA_TYPE: Record<string, string | undefined> = {
+  string: 'string',
+  literal: 'string',
+  union: 'string',
+  number: 'number',
+  boolean: 'bool',
+}
+
+/**
+ * Partial unique indexes of the unique constraints. Absent
+ * properties are stored as `null` so the index is limited
+ * to the records which have all the fields set
+ **/
+export function getUniqueIndexes(
+  tox: RepoTox,
+  collectionName: string,
+  constraints: UniqueConstraint[] = []
+): IndexDefinition[] {
+  const schemaUnion =
+    tox.__schema.type === 'union' ? tox.__schema.of : [tox.__schema]
+
+  return constraints.map(({ fields, variant = {} }) => {
+    const key: Record<string, 1> = {}
+    const partialFilterExpression: Document = { ...variant }
+
+    for (const fieldKey of fields) {
+      const schema = schemaUnion
+        .map((x) => x.of[fieldKey])
+        .find((x) => x !== undefined)
+
+      const bsonType =
+        typeof schema === 'object'
+          ? BSON_TYPE_BY_SCHEMA_TYPE[schema.type]
+          : undefined
+
+      if (bsonType === undefined) {
+        throw new SchemaDefinitionError(
+          ERROR_CODE.invalidUniqueKey,
+          ERROR.invalidUniqueKey(collectionName, fieldKey),
+          collectionName,
+          fieldKey
+        )
+      }
+
+      key[fieldKey] = 1
+      partialFilterExpression[fieldKey] = { $type: bsonType }
+    }
+
+    const name = ['unique', getIndexName(key), getIndexName(variant)]
+      .filter(Boolean)
+      .join('_')
+
+    return { key, name, unique: true, partialFilterExpression }
+  })
+}
+
+/**
+ * Version field must be a number property of every union variant
+ **/
+export function getVersionKey(
+  tox: RepoTox,
+  collectionName: string,
+  key: string | undefined
+) {
+  if (key === undefined) {
+    return undefined
+  }
+
+  const schemaUnion =
+    tox.__schema.type === 'union' ? tox.__schema.of : [tox.__schema]
+
+  const isNumber = schemaUnion.every((x) => {
+    const schema = x.of[key]
+    return typeof schema === 'object' && schema.type === 'number'
+  })
+
+  if (isNumber === false) {
+    throw new SchemaDefinitionError(
+      ERROR_CODE.invalidVersionKey,
+      ERROR.invalidVersionKey(collectionName, key),
+      collectionName,
+      key
+    )
+  }
+
+  return key
+}
+
+export function getIndexesDrift(
+  expected: NamedIndexDescription[],
+  existing: Document[]
+): IndexesDrift {
+  const drift: IndexesDrift = { missing: [], changed: [], extraneous: [] }
+
+  for (const index of expected) {
+    const actual = existing.find((x) => x.name === index.name)
+
+    if (actual === undefined) {
+      drift.missing.push(index.name)
+      continue
+    }
+
+    /* Text index key is stored in the internal `_fts` form */
+    const isText = Object.values(index.key).includes('text')
+
+    const isChanged =
+      (isText === false &&
+        JSON.stringify(index.key) !== JSON.stringify(actual.key)) ||
+      (index.unique === true) !== (actual.unique === true) ||
+      (index.sparse === true) !== (actual.sparse === true) ||
+      index.expireAfterSeconds !== actual.expireAfterSeconds ||
+      JSON.stringify(index.partialFilterExpression) !==
+        JSON.stringify(actual.partialFilterExpression)
+
+    if (isChanged) {
+      drift.changed.push(index.name)
+    }
+  }
+
+  for (const { name } of existing) {
+    if (name === '_id_' || expected.some((x) => x.name === name)) {
+      continue
+    }
+
+    drift.extraneous.push(name)
+  }
+
+  return drift
+}
+
+const CROCKFORD_BASE32 = '0123456789ABCDEFGHJKMNPQRSTVWXYZ'
+const NANOID_ALPHABET =
+  'useandom-26T198340PX75pxJACKVERYMINDBUSHWOLF_GQZbfghjklqvwyzrict'
+
+export function generateUuidV7() {
+  const bytes = randomBytes(16)
+  let timestamp = Date.now()
+
+  for (let i = 5; i >= 0; i -= 1) {
+    bytes[i] = timestamp % 256
+    timestamp = Math.floor(timestamp / 256)
+  }
+
+  bytes[6] = (bytes[6]! & 0x0f) | 0x70
+  bytes[8] = (bytes[8]! & 0x3f) | 0x80
+
+  const hex = bytes.toString('hex')
+
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join('-')
+}
+
+export function generateUlid() {
+  let timestamp = Date.now()
+  let time = ''
+
+  for (let i = 0; i < 10; i += 1) {
+    time = CROCKFORD_BASE32[timestamp % 32] + time
+    timestamp = Math.floor(timestamp / 32)
+  }
+
+  const random = Array.from(randomBytes(16))
+    .map((x) => CROCKFORD_BASE32[x & 31])
+    .join('')
+
+  return time + random
+}
+
+export function generateNanoid(size = 21) {
+  return Array.from(randomBytes(size))
+    .map((x) => NANOID_ALPHABET[x & 63])
+    .join('')
+}
+
+export function getIdGenerator(generator: IdGenerator): () => string {
+  switch (generator) {
+    case 'uuidv4': {
+      return randomUUID
+    }
+
+    case 'uuidv7': {
+      return generateUuidV7
+    }
+
+    case 'ulid': {
+      return generateUlid
+    }
+
+    case 'nanoid': {
+      return () => generateNanoid()
+    }
+
+    default: {
+      return generator
+    }
+  }
+}
+
+export function getReportUniqueId([brand, id]: MutationReport) {
+  return brand + ':' + id
+}
+
+/**
+ * Order independent representation of the plan
+ **/
+export function getSafeRemovePlanSignature(plan: SafeRemovePlan) {
+  const removed = plan.removed.map(getReportUniqueId).sort()
+  const updated = plan.updated
+    .map(({ report, fieldKey, referenceId }) =>
+      [getReportUniqueId(report), fieldKey, referenceId].join(':')
+    )
+    .sort()
+
+  return JSON.stringify([removed, updated])
+}
+
+/**
+ * Run `fn` in the transaction of the provided session or of a new one.
+ * Already started transaction of the provided session is reused.
+ * Events of the started transaction are held until it is committed,
+ * the reused one is settled by the event bus itself
+ **/
+export async function withTransaction<T>(
+  mongoClient: MongoClient,
+  session: ClientSession | undefined,
+  fn: (session: ClientSession) => Promise<T>,
+  eventBus?: Pick<EventBus, 'hold' | 'release'>
+): Promise<T> {
+  if (session?.inTransaction()) {
+    return fn(session)
+  }
+
+  const transactionSession = session ?? mongoClient.startSession()
+
+  let result: T | undefined
+  let isCommitted = false
+
+  try {
+    await transactionSession.withTransaction(async () => {
+      eventBus?.hold(transactionSession)
+      result = await fn(transactionSession)
+    })
+
+    isCommitted = true
+  } finally {
+    eventBus?.release(transactionSession, isCommitted)
+
+    if (session === undefined) {
+      await transactionSession.endSession()
+    }
+  }
+
+  return result as T
+}
+
+/**
+ * Second `get` argument is either session or options object
+ **/
+export function getGetOptions(
+  sessionOrOptions: ClientSession | GetOptions<unknown> | undefined
+): GetOptions<unknown> {
+  if (sessionOrOptions === undefined) {
+    return {}
+  }
+
+  if ('withTransaction' in sessionOrOptions) {
+    return { session: sessionOrOptions }
+  }
+
+  return sessionOrOptions
+}
+
+export function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+export function decodeCursor(cursor: string): PageCursor {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString())
+
+    /* Cursor value is a part of the query, operator object is rejected */
+    if (
+      Array.isArray(decoded) &&
+      decoded.length === 2 &&
+      (decoded[0] === null ||
+        ['string', 'number', 'boolean'].includes(typeof decoded[0]))
+    ) {
+      return decoded as PageCursor
+    }
+  } catch {
+    // handled below
+  }
+
+  throw new InvalidCursorError(cursor)
+}
+
+/**
+ * Filter of records which follow the cursor in `{ [sortBy]: order, id: order }`
+ * sorting. Missing values go first in ascending and last in descending order
+ **/
+export function getKeysetFilter(
+  sortBy: string,
+  order: 1 | -1,
+  [value, id]: PageCursor
+): Record<string, unknown> {
+  const next = order === 1 ? '$gt' : '$lt'
+
+  if (sortBy === 'id') {
+    return { id: { [next]: id } }
+  }
+
+  if (value === null) {
+    return order === 1
+      ? {
+          $or: [
+            { [sortBy]: null, id: { $gt: id } },
+            { [sortBy]: { $ne: null } },
+          ],
+        }
+      : { [sortBy]: null, id: { $lt: id } }
+  }
+
+  const conditions: Array<Record<string, unknown>> = [
+    { [sortBy]: { [next]: value } },
+    { [sortBy]: value, id: { [next]: id } },
+  ]
+
+  if (order === -1) {
+    conditions.push({ [sortBy]: null })
+  }
+
+  return { $or: conditions }
+}
+
+/**
+ * Foreign key field value to the list of referenced ids
+ **/
+export function getReferenceIds(value: unknown): Array<string | number> {
+  if (value === undefined || value === null) {
+    return []
+  }
+
+  return Array.from(new Set(Array.isArray(value) ? value : [value]))
+}
+
+/**
+ * Value of the field key, nested field path through array of
+ * objects yields the values of every element as an array
+ **/
+export function getFieldValue(
+  record: Record<string, unknown>,
+  fieldKey: string
+): unknown {
+  const [head = '', ...rest] = fieldKey.split('.')
+  const key = head.replace(/\[\]$/, '')
+  const value = record[key]
+
+  if (rest.length === 0) {
+    return value
+  }
+
+  const elements = head.endsWith('[]') ? getReferenceIds(value) : [value]
+
+  return elements.flatMap((element) =>
+    isPlainObject(element)
+      ? getReferenceIds(getFieldValue(element, rest.join('.')))
+      : []
+  )
+}
+
+/**
+ * MongoDB dot-notation path of the field key: `items[].productId`
+ * is queried as `items.productId`, matching any of the elements
+ **/
+export function getMongoPath(fieldKey: string) {
+  return fieldKey.replace(/\[\]/g, '')
+}
+
+const DETACHED = Symbol('detached')
+
+/**
+ * Copy of the record without the reference at the field key. Array
+ * reference is pulled, the element of array of objects holding
+ * the single reference is pulled as well
+ **/
+export function detachReference<T extends Record<string, unknown>>(
+  record: T,
+  fieldKey: string,
+  referenceId: unknown
+): T {
+  const detach = (
+    value: unknown,
+    path: string[],
+    isElement: boolean
+  ): unknown => {
+    const [head, ...rest] = path
+
+    if (head === undefined) {
+      if (Array.isArray(value)) {
+        return value.filter((x) => x !== referenceId)
+      }
+
+      return value === referenceId ? DETACHED : value
+    }
+
+    if (isPlainObject(value) === false) {
+      return value
+    }
+
+    const key = head.replace(/\[\]$/, '')
+    const result: Record<string, unknown> = { ...value }
+    const nested = result[key]
+
+    if (nested === undefined || nested === null) {
+      return result
+    }
+
+    if (head.endsWith('[]') && Array.isArray(nested)) {
+      result[key] = nested
+        .map((x) => detach(x, rest, true))
+        .filter((x) => x !== DETACHED)
+
+      return result
+    }
+
+    const detached = detach(nested, rest, isElement)
+
+    if (detached === DETACHED && isElement) {
+      return DETACHED
+    }
+
+    if (detached === DETACHED) {
+      delete result[key]
+    } else {
+      result[key] = detached
+    }
+
+    return result
+  }
+
+  return detach(record, fieldKey.split('.'), false) as T
+}
+
+function isPlainObject(x: unknown): x is Record<string, unknown> {
+  return typeof x === 'object' && x !== null && Array.isArray(x) === false
+}
+
+/**
+ * Compute the updates of bilateral relation mirror fields required
+ * after the source record transition from `before` to `after` state.
+ * Missing `before` means creation, missing `after` means removal.
+ *
+ * Single mirror key which is required by the target model is never
+ * unset, the target record depends on the source and handled by
+ * `safeRemove`. Required mirror array is pulled from, it stays valid.
+ * Version of the models with `version` option is bumped by each update
+ **/
+export function getBackReferenceUpdates(
+  relations: FieldRelation[],
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown> | undefined,
+  versionKeys: Record<string, string | undefined> = {},
+  timestamp = Date.now()
+): BackReferenceUpdate[] {
+  const result: BackReferenceUpdate[] = []
+  const sourceId = (after ?? before)?.id
+
+  const withVersion = (
+    brand: string,
+    update: UpdateFilter<Document>
+  ): UpdateFilter<Document> => {
+    const versionKey = versionKeys[brand]
+
+    if (versionKey === undefined) {
+      return update
+    }
+
+    return versionKey === 'updatedAt'
+      ? { ...update, $max: { updatedAt: timestamp } }
+      : { ...update, $inc: { [versionKey]: 1 } }
+  }
+
+  if (sourceId === undefined) {
+    return result
+  }
+
+  for (const relation of relations) {
+    if ('targetCollectionFieldKey' in relation === false) {
+      continue
+    }
+
+    const {
+      dependencyKind,
+      cardinalityType,
+      sourceCollectionName,
+      sourceCollectionFieldKey: sourceKey,
+      sourceVariant,
+      targetCollectionName,
+      targetCollectionFieldKey: targetKey,
+      targetVariant,
+    } = relation
+
+    /* Record of another union variant is not related */
+    const [sourceBefore, sourceAfter] = [before, after].map((x) =>
+      x && isRecordOfVariant(x, sourceVariant) ? x : undefined
+    )
+
+    const isSourceMany = cardinalityType.startsWith('many-')
+    const isSourceOptional = dependencyKind.startsWith('primary-')
+    const isTargetMany = cardinalityType.endsWith('-many')
+    const isTargetOptional = dependencyKind.endsWith('-primary')
+
+    const beforeIds = getReferenceIds(sourceBefore?.[sourceKey])
+    const afterIds = getReferenceIds(sourceAfter?.[sourceKey])
+
+    const detachedIds = beforeIds.filter((x) => afterIds.includes(x) === false)
+    const attachedIds = afterIds.filter((x) => beforeIds.includes(x) === false)
+
+    if (isTargetMany || isTargetOptional) {
+      for (const targetId of detachedIds) {
+        result.push([
+          targetCollectionName,
+          {
+            updateOne: {
+              filter: { ...targetVariant, id: targetId, [targetKey]: sourceId },
+              update: withVersion(
+                targetCollectionName,
+                isTargetMany
+                  ? pullOperation(targetKey, sourceId)
+                  : { $unset: { [targetKey]: '' } }
+              ),
+            },
+          },
+        ])
+      }
+    }
+
+    for (const targetId of attachedIds) {
+      if (isTargetMany) {
+        result.push(
+          [
+            targetCollectionName,
+            {
+              updateOne: {
+                filter: { ...targetVariant, id: targetId, [targetKey]: null },
+                update: { $set: { [targetKey]: [] } },
+              },
+            },
+          ],
+          [
+            targetCollectionName,
+            {
+              updateOne: {
+                filter: { ...targetVariant, id: targetId },
+                update: withVersion(targetCollectionName, {
+                  $addToSet: { [targetKey]: sourceId },
+                }),
+              },
+            },
+          ]
+        )
+
+        continue
+      }
+
+      result.push([
+        targetCollectionName,
+        {
+          updateOne: {
+            filter: { ...targetVariant, id: targetId },
+            update: withVersion(targetCollectionName, {
+              $set: { [targetKey]: sourceId },
+            }),
+          },
+        },
+      ])
+
+      // the target could reference other source record before
+      if (isSourceOptional) {
+        result.push([
+          sourceCollectionName,
+          {
+            updateMany: {
+              filter: {
+                ...sourceVariant,
+                id: { $ne: sourceId },
+                [sourceKey]: targetId,
+              },
+              update: withVersion(
+                sourceCollectionName,
+                isSourceMany
+                  ? pullOperation(sourceKey, targetId)
+                  : { $unset: { [sourceKey]: '' } }
+              ),
+            },
+          },
+        ])
+      }
+    }
+  }
+
+  return result
+}
+
+/**
+ * Filter of the back-reference update operation
+ **/
+export function getOperationFilter(operation: AnyBulkWriteOperation) {
+  if ('updateOne' in operation) {
+    return operation.updateOne.filter as Document
+  }
+
+  if ('updateMany' in operation) {
+    return operation.updateMany.filter as Document
+  }
+
+  return {}
+}
+
+function pullOperation(key: string, value: unknown) {
+  // mongodb typings can't infer array field of untyped document
+  return { $pull: { [key]: value } } as UpdateFilter<Document>
+}
+
+/**
+ * Filter matching the stored document only until any of
+ * its properties is changed, removed or added
+ **/
+export function getSnapshotFilter(
+  document: Document,
+  keys: Iterable<string>
+): Document {
+  const filter: Document = {}
+
+  for (const key of keys) {
+    filter[key] = { $exists: false }
+  }
+
+  for (const key in document) {
+    filter[key] = document[key]
+  }
+
+  return filter
+}
+
 export function sanitizeMongoRecord(x: Record<string, unknown>) {
   delete x._id
   delete x.__v
 
+  removeNullProperties(x)
+}
+
+/**
+ * Absent properties are stored as `null`, nested
+ * objects and arrays of objects included
+ **/
+function removeNullProperties(x: Record<string, unknown>) {
   for (const key in x) {
-    if (x[key] === null) {
+    const value = x[key]
+
+    if (value === null) {
       delete x[key]
+    } else if (Array.isArray(value)) {
+      value.filter(isPlainObject).forEach(removeNullProperties)
+    } else if (isPlainObject(value)) {
+      removeNullProperties(value)
     }
   }
 }
@@ -0,0 +1,213 @@
+import { USED_UUID_SYSTEM_COLLECTION } from './constants'
+import { findNonConformingRecords } from './migrations'
+import {
+  getFieldValue,
+  getReferenceIds,
+  isRecordOfVariant,
+  sanitizeMongoRecord,
+} from './utils'
+
+import type { RepoModel, ValidationReport } from './types'
+
+type StoredRecord = Record<string, unknown> & { id: string | number }
+
+/**
+ * Scan every model collection of the repo. Soft deleted records
+ * only own their ids, they are neither referenced nor referencing.
+ *
+ * The `fix` option registers missing ids in `__uuid`, drops `__uuid`
+ * entries without owning record and adds missing mirror references
+ * unless the mirror field holds another id. Schema issues and
+ * dangling references are only reported. Fix quiescent database,
+ * concurrent writes are not taken into account
+ **/
+export async function validateDatabase(
+  repo: Record<string, unknown>,
+  { fix = false }: { fix?: boolean } = {}
+): Promise<ValidationReport> {
+  const models = Object.keys(repo)
+    .filter((x) => !x.startsWith('_'))
+    .map((brand) => [brand, repo[brand] as RepoModel] as const)
+
+  const report: ValidationReport = {
+    nonConforming: await findNonConformingRecords(repo),
+    danglingReferences: [],
+    mirrorMismatches: [],
+    missingUuids: [],
+    orphanUuids: [],
+  }
+
+  if (models[0] === undefined) {
+    return report
+  }
+
+  const { db } = models[0][1].mongo().collection
+  const __uuid = db.collection<{ id: string | number; brand?: string }>(
+    USED_UUID_SYSTEM_COLLECTION
+  )
+
+  /* Read first, the id of a record created meanwhile is not dropped */
+  const uuids = new Set((await __uuid.find().toArray()).map((x) => x.id))
+  const ownedIds = new Set<unknown>()
+  const liveRecordsByBrand = new Map<string, Map<unknown, StoredRecord>>()
+
+  for (const [brand, model] of models) {
+    const liveRecords = new Map<unknown, StoredRecord>()
+
+    for await (const document of db.collection<StoredRecord>(brand).find()) {
+      const record: StoredRecord = { ...document }
+
+      sanitizeMongoRecord(record)
+      ownedIds.add(record.id)
+
+      if (uuids.has(record.id) === false) {
+        report.missingUuids.push({ brand, id: record.id, fixed: fix })
+      }
+
+      if (model.softDelete === false || record.deletedAt === undefined) {
+        liveRecords.set(record.id, record)
+      }
+    }
+
+    liveRecordsByBrand.set(brand, liveRecords)
+  }
+
+  for (const id of uuids) {
+    if (ownedIds.has(id) === false) {
+      report.orphanUuids.push({ id, fixed: fix })
+    }
+  }
+
+  for (const [brand, model] of models) {
+    const targetsByFieldKey = new Map<
+      string,
+      Array<{ brand: string; variant?: Record<string, unknown> }>
+    >()
+
+    for (const relation of model.relations) {
+      const fieldKey = relation.sourceCollectionFieldKey
+      const variant =
+        'targetVariant' in relation ? relation.targetVariant : undefined
+
+      targetsByFieldKey.set(
+        fieldKey,
+        (targetsByFieldKey.get(fieldKey) ?? []).concat(
+          ([] as string[])
+            .concat(relation.targetCollectionName)
+            .map((brand) => ({ brand, variant }))
+        )
+      )
+    }
+
+    for (const record of liveRecordsByBrand.get(brand)!.values()) {
+      for (const [field, targets] of targetsByFieldKey) {
+        for (const referenceId of getReferenceIds(
+          getFieldValue(record, field)
+        )) {
+          const isReferenced = targets.some(({ brand, variant }) => {
+            const target = liveRecordsByBrand.get(brand)?.get(referenceId)
+            return target !== undefined && isRecordOfVariant(target, variant)
+          })
+
+          if (isReferenced === false) {
+            report.danglingReferences.push({
+              brand,
+              id: record.id,
+              field,
+              referenceId,
+            })
+          }
+        }
+      }
+
+      for (const relation of model.relations) {
+        if (
+          'targetCollectionFieldKey' in relation === false ||
+          isRecordOfVariant(record, relation.sourceVariant) === false
+        ) {
+          continue
+        }
+
+        const {
+          sourceCollectionFieldKey: field,
+          targetCollectionName: targetBrand,
+          targetCollectionFieldKey: targetField,
+          targetVariant,
+        } = relation
+
+        for (const targetId of getReferenceIds(record[field])) {
+          const target = liveRecordsByBrand.get(targetBrand)?.get(targetId)
+          const mirror = target?.[targetField]
+
+          if (
+            target === undefined ||
+            isRecordOfVariant(target, targetVariant) === false ||
+            getReferenceIds(mirror).includes(record.id)
+          ) {
+            continue
+          }
+
+          const isTargetMany = relation.cardinalityType.endsWith('-many')
+          const isFixable = isTargetMany || mirror === undefined
+
+          report.mirrorMismatches.push({
+            brand,
+            id: record.id,
+            field,
+            targetBrand,
+            targetId,
+            targetField,
+            fixed: fix && isFixable,
+          })
+
+          if (fix === false || isFixable === false) {
+            continue
+          }
+
+          const collection = db.collection(targetBrand)
+
+          if (isTargetMany) {
+            await collection.updateOne(
+              { id: targetId, [targetField]: null },
+              { $set: { [targetField]: [] } }
+            )
+
+            await collection.updateOne(
+              { id: targetId },
+              { $addToSet: { [targetField]: record.id } }
+            )
+
+            target[targetField] = getReferenceIds(mirror).concat(record.id)
+          } else {
+            await collection.updateOne(
+              { id: targetId, [targetField]: null },
+              { $set: { [targetField]: record.id } }
+            )
+
+            target[targetField] = record.id
+          }
+        }
+      }
+    }
+  }
+
+  if (fix && report.missingUuids.length) {
+    await __uuid.bulkWrite(
+      report.missingUuids.map(({ brand, id }) => ({
+        updateOne: {
+          filter: { id },
+          update: { $setOnInsert: { id, brand } },
+          upsert: true,
+        },
+      }))
+    )
+  }
+
+  if (fix && report.orphanUuids.length) {
+    await __uuid.deleteMany({
+      id: { $in: report.orphanUuids.map((x) => x.id) },
+    })
+  }
+
+  return report
+}